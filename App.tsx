@@ -36,7 +36,7 @@ const App: React.FC = () => {
               </div>
               <div>
                 <h4 className="font-bold text-slate-800">Multi-Lang</h4>
-                <p className="text-sm text-slate-500">Supports CJK, French, Italian, English & Urdu.</p>
+                <p className="text-sm text-slate-500">Supports CJK, European, Arabic-script & Indic languages.</p>
               </div>
             </div>
             <div className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm flex items-start space-x-4">
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { BatchJob } from '../types';
+import { languageTextProps } from '../languages';
+import { SENTENCE_STATUS_STYLES } from '../utils/batchJob';
+
+interface AlignedSentenceViewProps {
+  job: BatchJob;
+  onRetranslate: (index: number) => void;
+  onEdit: (index: number, translation: string) => void;
+  onSpeak: (index: number) => void;
+  retranslatingIndex: number | null;
+  speakingIndex: number | null;
+  // Sentence actions are locked while a batch run owns the job.
+  disabled?: boolean;
+}
+
+// Each source sentence next to its translation, for reviewing step-by-step translations line by line.
+const AlignedSentenceView: React.FC<AlignedSentenceViewProps> = ({
+  job, onRetranslate, onEdit, onSpeak, retranslatingIndex, speakingIndex, disabled = false,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (index: number) => {
+    setSelectedIndex(index);
+    setEditingIndex(index);
+    setDraft(job.sentences[index].translation || '');
+  };
+
+  const saveEdit = () => {
+    if (editingIndex === null) return;
+    if (draft.trim()) onEdit(editingIndex, draft.trim());
+    setEditingIndex(null);
+  };
+
+  const iconButton = 'w-7 h-7 rounded-full flex items-center justify-center text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="border-t border-slate-200">
+      <div className="px-6 py-3 bg-slate-50 flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center">
+          <i className="fa-solid fa-table-columns mr-2 text-indigo-400"></i>
+          Sentence Alignment ({job.sentences.length})
+        </h4>
+        <span className="text-[10px] text-slate-400 italic">Click a sentence to highlight its pair</span>
+      </div>
+      <div className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+        {job.sentences.map((sentence, i) => {
+          const isSelected = selectedIndex === i;
+          const cellClass = `p-3 text-sm leading-relaxed text-start transition-colors ${isSelected ? 'bg-indigo-50' : ''}`;
+          return (
+            <div
+              key={i}
+              onClick={() => setSelectedIndex(isSelected && editingIndex !== i ? null : i)}
+              className={`grid grid-cols-[2.5rem_1fr_1fr_auto] items-start cursor-pointer hover:bg-slate-50 ${isSelected ? 'ring-1 ring-inset ring-indigo-200' : ''}`}
+            >
+              <div className="pt-3.5 flex flex-col items-center space-y-1.5">
+                <span className="text-[10px] font-bold text-slate-400">{i + 1}</span>
+                <span
+                  className={`w-2 h-2 rounded-full ${SENTENCE_STATUS_STYLES[sentence.status].className}`}
+                  title={`${SENTENCE_STATUS_STYLES[sentence.status].label}${sentence.error ? ` (${sentence.error})` : ''}`}
+                ></span>
+              </div>
+              <p {...languageTextProps(job.sourceLanguage)} className={`${cellClass} text-slate-600`}>{sentence.source}</p>
+              {editingIndex === i ? (
+                <div className={`${cellClass} space-y-2`} onClick={(e) => e.stopPropagation()}>
+                  <textarea
+                    {...languageTextProps(job.targetLanguage)}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) saveEdit();
+                      if (e.key === 'Escape') setEditingIndex(null);
+                    }}
+                    autoFocus
+                    rows={3}
+                    className="w-full bg-white border border-indigo-200 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-y text-start"
+                  />
+                  <div className="flex items-center space-x-2">
+                    <button onClick={saveEdit} className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-[11px] font-bold transition-colors">Save</button>
+                    <button onClick={() => setEditingIndex(null)} className="px-3 py-1 text-slate-500 hover:bg-slate-100 rounded-lg text-[11px] font-bold transition-colors">Cancel</button>
+                  </div>
+                </div>
+              ) : (
+                <p {...languageTextProps(job.targetLanguage)} className={`${cellClass} text-slate-800`}>
+                  {sentence.translation ?? (
+                    <span className="text-slate-300 italic">{sentence.status === 'failed' ? 'Translation failed' : 'Not translated yet'}</span>
+                  )}
+                </p>
+              )}
+              <div className="p-2 flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+                <button
+                  onClick={() => onSpeak(i)}
+                  disabled={!sentence.translation}
+                  className={`${iconButton} ${speakingIndex === i ? 'bg-indigo-600 text-white' : 'text-indigo-500 hover:bg-indigo-50'}`}
+                  title={speakingIndex === i ? 'Stop' : 'Listen to this sentence'}
+                >
+                  <i className={`fa-solid ${speakingIndex === i ? 'fa-stop' : 'fa-volume-high'}`}></i>
+                </button>
+                <button
+                  onClick={() => startEditing(i)}
+                  disabled={disabled || editingIndex === i}
+                  className={`${iconButton} text-slate-500 hover:bg-slate-100`}
+                  title="Edit translation"
+                >
+                  <i className="fa-solid fa-pen"></i>
+                </button>
+                <button
+                  onClick={() => onRetranslate(i)}
+                  disabled={disabled || retranslatingIndex !== null}
+                  className={`${iconButton} text-slate-500 hover:bg-slate-100`}
+                  title="Translate this sentence again"
+                >
+                  <i className={`fa-solid fa-rotate-right ${retranslatingIndex === i ? 'fa-spin' : ''}`}></i>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AlignedSentenceView;
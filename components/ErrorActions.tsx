@@ -0,0 +1,50 @@
+import React, { useState, useEffect } from 'react';
+import { ClassifiedError } from '../utils/errorUtils';
+
+interface ErrorActionsProps {
+  error: ClassifiedError;
+  occurredAt: number;
+  onRetry?: () => void;
+  onOpenMicrophoneSettings?: () => void;
+}
+
+// Recovery buttons shown under an error message, depending on what kind of error it was.
+const ErrorActions: React.FC<ErrorActionsProps> = ({ error, occurredAt, onRetry, onOpenMicrophoneSettings }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const retryAt = occurredAt + (error.retryAfterMs ?? 0);
+  const secondsLeft = Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+  useEffect(() => {
+    if (retryAt <= Date.now()) return;
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const showRetry = error.retryable && !!onRetry;
+  const showMicrophone = (error.kind === 'microphone-denied' || error.kind === 'audio-device') && !!onOpenMicrophoneSettings;
+  if (!showRetry && !showMicrophone) return null;
+
+  const buttonClass = 'px-3 py-1 rounded-lg text-[11px] font-bold bg-white border border-red-200 text-red-600 hover:bg-red-100 transition-colors disabled:opacity-60 disabled:cursor-not-allowed flex items-center';
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {showRetry && (
+        <button onClick={onRetry} disabled={secondsLeft > 0} className={buttonClass}>
+          <i className="fa-solid fa-rotate-right mr-1.5"></i>
+          {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry'}
+        </button>
+      )}
+      {showMicrophone && (
+        <button onClick={onOpenMicrophoneSettings} className={buttonClass}>
+          <i className="fa-solid fa-microphone mr-1.5"></i>
+          Open microphone settings
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorActions;
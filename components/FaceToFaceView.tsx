@@ -0,0 +1,141 @@
+import React, { useEffect, useRef } from 'react';
+import { Language, VoiceTurn } from '../types';
+import { getLanguageInfo, languageTextProps } from '../languages';
+import { Listener } from '../utils/outputRouting';
+
+interface FaceToFaceViewProps {
+  transcriptions: VoiceTurn[];
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  isActive: boolean;
+  isConnecting: boolean;
+  error: string | null;
+  talkingSide: Listener | null;
+  onToggleTalk: (side: Listener) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onExit: () => void;
+}
+
+// A line on one person's half: their own words, or the translation of what the other person said.
+interface HalfLine {
+  text: string;
+  own: boolean;
+}
+
+interface HalfProps {
+  side: Listener;
+  language: Language;
+  lines: HalfLine[];
+  isActive: boolean;
+  isTalking: boolean;
+  onToggleTalk: (side: Listener) => void;
+}
+
+// One person's half: only the turns in their language, i.e. what they said and the translations of the
+// other person, in large text with their own talk button.
+const Half: React.FC<HalfProps> = ({ side, language, lines, isActive, isTalking, onToggleTalk }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [lines.length]);
+
+  return (
+    <div className={`flex-1 min-h-0 flex flex-col p-4 ${side === 'target' ? 'rotate-180 bg-slate-800' : 'bg-slate-900'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-bold uppercase tracking-widest text-slate-400">{getLanguageInfo(language).nativeName}</span>
+        {isTalking && (
+          <span className="text-xs font-bold uppercase tracking-widest text-emerald-400 animate-pulse">
+            <i className="fa-solid fa-microphone mr-1.5"></i>Listening
+          </span>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+        {lines.length === 0 ? (
+          <p className="h-full flex items-center justify-center text-center text-slate-500 text-lg">
+            {isActive ? 'Tap the microphone and speak' : 'Start the session to begin'}
+          </p>
+        ) : (
+          lines.map((line, i) => (
+            <div key={i} className={`flex ${line.own ? 'justify-end' : 'justify-start'}`}>
+              <p
+                {...languageTextProps(language)}
+                className={`max-w-[85%] rounded-2xl px-4 py-3 text-2xl leading-snug text-start ${
+                  line.own ? 'bg-indigo-600/40 text-indigo-100 rounded-br-none' : 'bg-white text-slate-900 rounded-bl-none'
+                }`}
+              >
+                {line.text}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <button
+        onClick={() => onToggleTalk(side)}
+        disabled={!isActive}
+        className={`mt-4 self-center w-20 h-20 rounded-full flex items-center justify-center text-white text-3xl shadow-lg transition-all touch-manipulation disabled:opacity-40 ${
+          isTalking ? 'bg-emerald-500 scale-110 shadow-[0_0_30px_rgba(16,185,129,0.5)]' : 'bg-indigo-600 active:bg-indigo-700'
+        }`}
+        title={isTalking ? 'Tap when finished' : 'Tap to talk'}
+      >
+        <i className={`fa-solid ${isTalking ? 'fa-stop' : 'fa-microphone'}`}></i>
+      </button>
+    </div>
+  );
+};
+
+// Split screen for two people facing each other across a phone or tablet laid flat. The source-language
+// speaker holds the bottom half; the top half is turned around for the person opposite.
+const FaceToFaceView: React.FC<FaceToFaceViewProps> = ({
+  transcriptions, sourceLanguage, targetLanguage, isActive, isConnecting, error, talkingSide, onToggleTalk, onStart, onStop, onExit,
+}) => {
+  const linesIn = (language: Language): HalfLine[] => transcriptions.flatMap(t =>
+    t.sourceLanguage === language ? (t.original ? [{ text: t.original, own: true }] : [])
+    : t.targetLanguage === language && t.translation ? [{ text: t.translation, own: false }]
+    : []
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col bg-slate-900 select-none">
+      <Half side="target" language={targetLanguage} lines={linesIn(targetLanguage)} isActive={isActive} isTalking={talkingSide === 'target'} onToggleTalk={onToggleTalk} />
+
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-950 border-y border-slate-700">
+        <button
+          onClick={onExit}
+          className="w-10 h-10 rounded-full bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors flex items-center justify-center"
+          title="Leave face-to-face mode"
+        >
+          <i className="fa-solid fa-compress"></i>
+        </button>
+        {isConnecting ? (
+          <span className="text-slate-300 text-sm font-semibold">
+            <i className="fa-solid fa-circle-notch fa-spin mr-2 text-indigo-400"></i>Connecting…
+          </span>
+        ) : isActive ? (
+          <button onClick={onStop} className="px-5 py-2 rounded-full bg-red-500 hover:bg-red-600 text-white text-sm font-bold transition-colors">
+            <i className="fa-solid fa-stop mr-2"></i>End
+          </button>
+        ) : (
+          <button onClick={onStart} className="px-5 py-2 rounded-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold transition-colors">
+            <i className="fa-solid fa-play mr-2"></i>Start
+          </button>
+        )}
+        <span className="w-10 text-center text-[10px] font-bold text-slate-500 uppercase">
+          {getLanguageInfo(sourceLanguage).code}·{getLanguageInfo(targetLanguage).code}
+        </span>
+      </div>
+      {error && (
+        <p className="px-4 py-2 bg-red-900/60 text-red-100 text-xs text-center">
+          <i className="fa-solid fa-circle-exclamation mr-2"></i>{error}
+        </p>
+      )}
+
+      <Half side="source" language={sourceLanguage} lines={linesIn(sourceLanguage)} isActive={isActive} isTalking={talkingSide === 'source'} onToggleTalk={onToggleTalk} />
+    </div>
+  );
+};
+
+export default FaceToFaceView;
@@ -0,0 +1,176 @@
+import React, { useState, useMemo } from 'react';
+import { GlossaryEntry, Language } from '../types';
+import { ALL_LANGUAGES, languageTextProps } from '../languages';
+import { getGlossaryForPair } from '../utils/glossaryUtils';
+
+interface GlossaryManagerProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  onClose: () => void;
+}
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ entries, onChange, sourceLanguage, targetLanguage, onClose }) => {
+  const [pairSource, setPairSource] = useState<Language>(sourceLanguage);
+  const [pairTarget, setPairTarget] = useState<Language>(targetLanguage);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+
+  const pairEntries = useMemo(
+    () => getGlossaryForPair(entries, pairSource, pairTarget),
+    [entries, pairSource, pairTarget]
+  );
+
+  const canAdd = sourceTerm.trim() !== '' && (doNotTranslate || targetTerm.trim() !== '');
+
+  const addEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+
+    const term = sourceTerm.trim();
+    const newEntry: GlossaryEntry = {
+      id: crypto.randomUUID(),
+      sourceLanguage: pairSource,
+      targetLanguage: pairTarget,
+      sourceTerm: term,
+      targetTerm: doNotTranslate ? term : targetTerm.trim(),
+      ...(doNotTranslate ? { doNotTranslate } : {}),
+    };
+
+    // A source term maps to exactly one rendering per language pair, so re-adding replaces it.
+    onChange([
+      newEntry,
+      ...entries.filter(entry => !(
+        entry.sourceLanguage === pairSource &&
+        entry.targetLanguage === pairTarget &&
+        entry.sourceTerm.toLocaleLowerCase() === term.toLocaleLowerCase()
+      )),
+    ]);
+    setSourceTerm('');
+    setTargetTerm('');
+    setDoNotTranslate(false);
+  };
+
+  const deleteEntry = (id: string) => {
+    onChange(entries.filter(entry => entry.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-md bg-white h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between bg-slate-50">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center">
+            <i className="fa-solid fa-book mr-3 text-indigo-600"></i>
+            Glossary
+          </h3>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-full hover:bg-slate-200 text-slate-400 transition-colors flex items-center justify-center"
+          >
+            <i className="fa-solid fa-xmark text-lg"></i>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center space-x-2">
+          <select
+            value={pairSource}
+            onChange={(e) => setPairSource(e.target.value as Language)}
+            className="flex-1 bg-slate-50 border border-slate-300 rounded-lg px-3 py-2 text-sm font-semibold focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer"
+          >
+            {ALL_LANGUAGES.map(lang => (
+              <option key={`glossary-source-${lang}`} value={lang}>{lang}</option>
+            ))}
+          </select>
+          <i className="fa-solid fa-arrow-right text-xs text-slate-300"></i>
+          <select
+            value={pairTarget}
+            onChange={(e) => setPairTarget(e.target.value as Language)}
+            className="flex-1 bg-slate-50 border border-slate-300 rounded-lg px-3 py-2 text-sm font-semibold focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer"
+          >
+            {ALL_LANGUAGES.map(lang => (
+              <option key={`glossary-target-${lang}`} value={lang}>{lang}</option>
+            ))}
+          </select>
+        </div>
+
+        <form onSubmit={addEntry} className="px-6 py-4 border-b border-slate-100 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              {...languageTextProps(pairSource)}
+              placeholder={`${pairSource} term`}
+              value={sourceTerm}
+              onChange={(e) => setSourceTerm(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-100 border-none rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <input
+              type="text"
+              {...languageTextProps(doNotTranslate ? pairSource : pairTarget)}
+              placeholder={doNotTranslate ? 'Kept as-is' : `${pairTarget} term`}
+              value={doNotTranslate ? sourceTerm : targetTerm}
+              disabled={doNotTranslate}
+              onChange={(e) => setTargetTerm(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-100 border-none rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-xs font-semibold text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={doNotTranslate}
+                onChange={() => setDoNotTranslate(!doNotTranslate)}
+                className="accent-indigo-600"
+              />
+              <span>Do not translate</span>
+            </label>
+            <button
+              type="submit"
+              disabled={!canAdd}
+              className="px-4 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg text-xs font-bold transition-colors flex items-center"
+            >
+              <i className="fa-solid fa-plus mr-2"></i>
+              Add Term
+            </button>
+          </div>
+        </form>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {pairEntries.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-slate-300 space-y-4 py-20">
+              <i className="fa-solid fa-book-open text-5xl opacity-20"></i>
+              <p className="text-center font-medium">No terms for {pairSource} → {pairTarget}</p>
+            </div>
+          ) : (
+            pairEntries.map(entry => (
+              <div
+                key={entry.id}
+                className="group bg-white border border-slate-200 rounded-xl px-4 py-3 flex items-center justify-between"
+              >
+                <div className="flex items-center space-x-2 text-sm min-w-0">
+                  <bdi {...languageTextProps(entry.sourceLanguage)} className="font-semibold text-slate-700 truncate">{entry.sourceTerm}</bdi>
+                  <i className="fa-solid fa-arrow-right text-[8px] text-slate-300"></i>
+                  {entry.doNotTranslate ? (
+                    <span className="px-2 py-0.5 bg-slate-100 text-slate-500 text-[10px] font-bold rounded uppercase">Keep</span>
+                  ) : (
+                    <bdi {...languageTextProps(entry.targetLanguage)} className="text-indigo-600 font-medium truncate">{entry.targetTerm}</bdi>
+                  )}
+                </div>
+                <button
+                  onClick={() => deleteEntry(entry.id)}
+                  className="opacity-0 group-hover:opacity-100 w-7 h-7 rounded-full bg-red-50 text-red-400 hover:bg-red-100 hover:text-red-600 transition-all flex items-center justify-center"
+                >
+                  <i className="fa-solid fa-trash-can text-xs"></i>
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
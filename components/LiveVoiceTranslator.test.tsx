@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import LiveVoiceTranslator from './LiveVoiceTranslator';
+import { createMockProvider } from '../services/mockProvider';
+import type { AudioCaptureOptions } from '../utils/audioCapture';
+import type { StretchPlayer } from '../utils/timeStretch';
+
+// The microphone, capture worklet and players are faked; the test feeds captured chunks by hand.
+const audio = vi.hoisted(() => ({
+  capture: null as AudioCaptureOptions | null,
+  enqueued: [] as Float32Array[],
+  stopped: 0,
+}));
+
+vi.mock('../utils/microphoneSettings', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/microphoneSettings')>(),
+  openMicrophone: async () => ({ getTracks: () => [{ stop: () => { audio.stopped++; } }] }) as unknown as MediaStream,
+  watchInputDevices: () => () => {},
+}));
+
+vi.mock('../utils/audioCapture', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/audioCapture')>(),
+  startAudioCapture: async (_ctx: AudioContext, _stream: MediaStream, options: AudioCaptureOptions) => {
+    audio.capture = options;
+    return { setGain: () => {}, stop: () => { audio.capture = null; } };
+  },
+}));
+
+vi.mock('../utils/timeStretch', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/timeStretch')>(),
+  createStretchPlayer: async (): Promise<StretchPlayer> => ({
+    enqueue: samples => { audio.enqueued.push(samples); },
+    flush: () => {},
+    setRate: () => {},
+    clear: () => {},
+    onIdle: null,
+    disconnect: () => {},
+  }),
+}));
+
+vi.mock('../utils/voiceAudioStore', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/voiceAudioStore')>(),
+  pruneTurnAudio: async () => {},
+}));
+
+class FakeAudioContext {
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+  resume = async () => {};
+  close = async () => {};
+}
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLDivElement;
+let root: Root;
+
+async function render(element: React.ReactElement) {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  await act(async () => root.render(element));
+}
+
+// Polls (on real timers, so the mock provider's latency elapses) until the condition holds.
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out; the page reads: ${container.textContent}`);
+    await act(() => new Promise(resolve => setTimeout(resolve, 20)));
+  }
+}
+
+const buttonWith = (text: string) =>
+  Array.from(container.querySelectorAll('button')).find(b => b.textContent?.trim() === text) as HTMLButtonElement;
+const click = (button: HTMLElement) => act(async () => button.click());
+
+// Captures the given seconds of speech in 100 ms chunks at the live input rate.
+const speak = (seconds: number) => act(async () => {
+  for (let i = 0; i < seconds * 10; i++) audio.capture!.onChunk(new Int16Array(1600).fill(3000), 0.1);
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  audio.capture = null;
+  audio.enqueued = [];
+  audio.stopped = 0;
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('LiveVoiceTranslator', () => {
+  it('starts an interpreting session and shows each completed turn', async () => {
+    const provider = createMockProvider();
+    const connectLive = vi.spyOn(provider, 'connectLive');
+    await render(<LiveVoiceTranslator provider={provider} />);
+
+    await click(buttonWith('Start Listening'));
+    await waitFor(() => audio.capture !== null);
+
+    expect(connectLive).toHaveBeenCalledOnce();
+    expect(connectLive.mock.calls[0][0]).toMatchObject({ mode: 'interpret', sourceLanguage: 'English', targetLanguage: 'Japanese', history: undefined });
+    expect(buttonWith('End Session')).toBeDefined();
+
+    await speak(3);
+    await waitFor(() => container.textContent!.includes('[Japanese] Mock English utterance 1'));
+    expect(container.textContent).toContain('Mock English utterance 1');
+    expect(audio.enqueued.length).toBeGreaterThan(0);
+  });
+
+  it('saves the conversation and releases the microphone when ended', async () => {
+    const provider = createMockProvider();
+    await render(<LiveVoiceTranslator provider={provider} />);
+
+    await click(buttonWith('Start Listening'));
+    await waitFor(() => audio.capture !== null);
+    await speak(3);
+    await waitFor(() => container.textContent!.includes('[Japanese] Mock English utterance 1'));
+
+    await click(buttonWith('End Session'));
+    expect(audio.capture).toBeNull();
+    expect(audio.stopped).toBe(1);
+    expect(buttonWith('Start Listening')).toBeDefined();
+
+    const [saved] = JSON.parse(localStorage.getItem('lingua_voice_history')!);
+    expect(saved).toMatchObject({ sourceLanguage: 'English', targetLanguage: 'Japanese' });
+    expect(saved.messages).toEqual([
+      expect.objectContaining({ original: 'Mock English utterance 1', translation: '[Japanese] Mock English utterance 1', sourceLanguage: 'English' }),
+    ]);
+  });
+
+  it('reports a failure to open the microphone and stays stopped', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const microphone = await import('../utils/microphoneSettings');
+    vi.spyOn(microphone, 'openMicrophone').mockRejectedValue(new DOMException('Permission denied', 'NotAllowedError'));
+    const provider = createMockProvider();
+    const connectLive = vi.spyOn(provider, 'connectLive');
+    await render(<LiveVoiceTranslator provider={provider} />);
+
+    await click(buttonWith('Start Listening'));
+    await waitFor(() => container.textContent!.includes('Microphone access was denied.'));
+    expect(buttonWith('Start Listening')).toBeDefined();
+    expect(connectLive).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,29 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { decode, decodeAudioData, createBlob } from '../utils/audioUtils';
-import { parseApiError } from '../utils/errorUtils';
-import { VoiceHistoryItem, Language, ALL_LANGUAGES } from '../types';
+import { decode, createBlob, concatPcm, pcmToFloat32 } from '../utils/audioUtils';
+import { StretchPlayer, createStretchPlayer } from '../utils/timeStretch';
+import { startAudioCapture, AudioCapture, CHUNK_DURATIONS_MS, DEFAULT_CHUNK_MS } from '../utils/audioCapture';
+import {
+  CaptureMode, CAPTURE_MODES, createVoiceGate, levelToDb, describeKey,
+  VAD_THRESHOLD_RANGE_DB, DEFAULT_VAD_THRESHOLD_DB, DEFAULT_PUSH_TO_TALK_KEY,
+} from '../utils/voiceActivity';
+import { ClassifiedError, ConnectionClose, classifyError, connectionCloseError, isFatalConnectionLoss } from '../utils/errorUtils';
+import { VoiceHistoryItem, VoiceTurn, Language, GlossaryEntry } from '../types';
+import { ALL_LANGUAGES, getLanguageInfo, parseLanguage, languageTextProps } from '../languages';
+import { loadGlossary, saveGlossary, getGlossaryForPair } from '../utils/glossaryUtils';
+import { guessLanguage } from '../utils/languageDetection';
+import { detectTurnLanguages, upgradeVoiceHistory, turnAudioIds, turnInvolves, turnsToContext } from '../utils/voiceTurns';
+import { conversationFileName, exportTranscript, TranscriptFormat, TRANSCRIPT_FORMATS } from '../utils/transcriptExport';
+import { downloadBlob } from '../utils/documentUtils';
+import { saveTurnAudio, loadTurnAudio, pruneTurnAudio, turnAudioToBuffer, exportConversationWav } from '../utils/voiceAudioStore';
+import { MicrophoneSettings, loadMicrophoneSettings, saveMicrophoneSettings, openMicrophone, watchInputDevices } from '../utils/microphoneSettings';
+import { OutputSettings, OutputRouter, Listener, LISTENERS, loadOutputSettings, saveOutputSettings, createOutputRouter } from '../utils/outputRouting';
+import GlossaryManager from './GlossaryManager';
+import ErrorActions from './ErrorActions';
+import FaceToFaceView from './FaceToFaceView';
+import MicrophoneSettingsPanel from './MicrophoneSettingsPanel';
+import OutputSettingsPanel from './OutputSettingsPanel';
+import { TranslationProvider, LiveSession, LiveSessionEvent, getTranslationProvider } from '../services/translationProvider';
 
 const AVAILABLE_VOICES = [
   { id: 'Zephyr', label: 'Zephyr', desc: 'Balanced & Natural' },
@@ -13,18 +33,34 @@ const AVAILABLE_VOICES = [
   { id: 'Fenrir', label: 'Fenrir', desc: 'Warm & Solid' },
 ];
 
-const LiveVoiceTranslator: React.FC = () => {
+const INPUT_SAMPLE_RATE = 16000;
+
+// A dropped connection is retried after 1s, 2s, 4s ... (capped), up to MAX_RECONNECT_ATTEMPTS in a row.
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+const MAX_BUFFERED_SAMPLES = INPUT_SAMPLE_RATE * 15; // Speech held while reconnecting; older audio is dropped
+const CONTEXT_TURNS = 10; // Recent turns handed to a reconnected session
+const VISIBLE_TURNS = 10; // Recent turns shown on screen; the whole conversation is kept and saved
+
+interface LiveVoiceTranslatorProps {
+  provider?: TranslationProvider;
+}
+
+const LiveVoiceTranslator: React.FC<LiveVoiceTranslatorProps> = ({ provider = getTranslationProvider() }) => {
   const [isActive, setIsActive] = useState(false);
-  const [transcriptions, setTranscriptions] = useState<Array<{ role: 'user' | 'model'; text: string }>>([]);
+  const [transcriptions, setTranscriptions] = useState<VoiceTurn[]>([]);
   const [isConnecting, setIsConnecting] = useState(false);
   const [visualizerData, setVisualizerData] = useState<number[]>(new Array(40).fill(5));
   const [error, setError] = useState<string | null>(null);
+  const [errorDetail, setErrorDetail] = useState<{ error: ClassifiedError; occurredAt: number; canRetry: boolean } | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   
   const [sourceLanguage, setSourceLanguage] = useState<Language>(() => {
-    return (localStorage.getItem('lingua_voice_source') as Language) || 'English';
+    return parseLanguage(localStorage.getItem('lingua_voice_source'), 'English');
   });
   const [targetLanguage, setTargetLanguage] = useState<Language>(() => {
-    return (localStorage.getItem('lingua_voice_target') as Language) || 'Japanese';
+    return parseLanguage(localStorage.getItem('lingua_voice_target'), 'Japanese');
   });
 
   // Voice Customization States
@@ -35,35 +71,108 @@ const LiveVoiceTranslator: React.FC = () => {
     const saved = localStorage.getItem('lingua_live_speech_rate');
     return saved ? parseFloat(saved) : 1.0;
   });
+  const [chunkMs, setChunkMs] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('lingua_capture_chunk_ms'));
+    return CHUNK_DURATIONS_MS.includes(saved) ? saved : DEFAULT_CHUNK_MS;
+  });
+  const [captureMode, setCaptureMode] = useState<CaptureMode>(() => {
+    const saved = localStorage.getItem('lingua_capture_mode');
+    return CAPTURE_MODES.some(m => m.id === saved) ? saved as CaptureMode : 'continuous';
+  });
+  const [vadThresholdDb, setVadThresholdDb] = useState<number>(() => {
+    const saved = localStorage.getItem('lingua_vad_threshold_db');
+    return saved ? parseFloat(saved) : DEFAULT_VAD_THRESHOLD_DB;
+  });
+  const [pushToTalkKey, setPushToTalkKey] = useState<string>(() => {
+    return localStorage.getItem('lingua_ptt_key') || DEFAULT_PUSH_TO_TALK_KEY;
+  });
+  const [isBindingKey, setIsBindingKey] = useState(false);
+  const [isTransmitting, setIsTransmitting] = useState(false);
+  const [inputLevelDb, setInputLevelDb] = useState<number>(-100);
+  const [microphoneSettings, setMicrophoneSettings] = useState<MicrophoneSettings>(() => loadMicrophoneSettings());
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(() => loadOutputSettings());
+  const [recordAudio, setRecordAudio] = useState<boolean>(() => {
+    return localStorage.getItem('lingua_voice_record_audio') === 'true';
+  });
   const [showSettings, setShowSettings] = useState(false);
 
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(() => loadGlossary());
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [isFaceToFace, setIsFaceToFace] = useState(false);
+  const [talkingSide, setTalkingSide] = useState<Listener | null>(null);
+
   const [history, setHistory] = useState<VoiceHistoryItem[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [historyLanguage, setHistoryLanguage] = useState<Language | ''>('');
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+  const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
 
   const audioCtxRef = useRef<AudioContext | null>(null);
-  const outputAudioCtxRef = useRef<AudioContext | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const outputRouterRef = useRef<OutputRouter | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  // The connected session; null while connecting or reconnecting, when audio goes to pendingAudioRef.
+  const liveSessionRef = useRef<LiveSession | null>(null);
+  const pendingAudioRef = useRef<Int16Array[]>([]);
+  const isActiveRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const transcriptionsRef = useRef<VoiceTurn[]>([]);
+  // Playback clock per output context; split routing to two devices runs two contexts.
+  const nextStartTimeRef = useRef(new Map<AudioContext, number>());
+  const turnListenerRef = useRef<Listener | null>(null);
+  // One pitch-preserving player per output destination, so speech rate does not change the voice.
+  const playersRef = useRef(new Map<AudioNode, StretchPlayer>());
+  const speechRateRef = useRef(speechRate);
   const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const stopDeviceWatchRef = useRef<(() => void) | null>(null);
+  const microphoneSettingsRef = useRef(microphoneSettings);
+  const isTalkingRef = useRef(false);
+  const isFaceToFaceRef = useRef(false);
+  const isTransmittingRef = useRef(false);
+  const vadThresholdRef = useRef(vadThresholdDb);
   const currentTranscriptionRef = useRef({ user: '', model: '' });
 
+  // Per-turn recording buffers, flushed to the audio store on every turnComplete.
+  const recordingRef = useRef<{ enabled: boolean; input: Int16Array[]; output: Int16Array[] }>({ enabled: false, input: [], output: [] });
+  const playbackCtxRef = useRef<AudioContext | null>(null);
+  const playbackSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const playbackRunRef = useRef(0);
+
   useEffect(() => {
     const savedHistory = localStorage.getItem('lingua_voice_history');
     if (savedHistory) {
       try {
-        setHistory(JSON.parse(savedHistory));
+        setHistory(upgradeVoiceHistory(JSON.parse(savedHistory)));
       } catch (e) {
         console.error('Failed to parse voice history', e);
       }
     }
+    setIsHistoryLoaded(true);
   }, []);
 
   useEffect(() => {
     localStorage.setItem('lingua_voice_history', JSON.stringify(history));
   }, [history]);
 
+  // Only prune after the saved history has been loaded, otherwise the first render would wipe every clip.
+  // Clips of the conversation on screen are kept too, since a running session is saved only when it ends.
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    const referenced = new Set([...history.flatMap(item => turnAudioIds(item.messages)), ...turnAudioIds(transcriptions)]);
+    pruneTurnAudio(referenced).catch(e => console.error('Failed to prune recorded audio', e));
+  }, [history, isHistoryLoaded]);
+
+  useEffect(() => {
+    transcriptionsRef.current = transcriptions;
+  }, [transcriptions]);
+
+  useEffect(() => {
+    if (!error) setErrorDetail(null);
+  }, [error]);
+
   useEffect(() => {
     localStorage.setItem('lingua_voice_source', sourceLanguage);
   }, [sourceLanguage]);
@@ -79,186 +188,558 @@ const LiveVoiceTranslator: React.FC = () => {
 
   useEffect(() => {
     localStorage.setItem('lingua_live_speech_rate', speechRate.toString());
+    speechRateRef.current = speechRate;
+    playersRef.current.forEach(player => player.setRate(speechRate));
   }, [speechRate]);
 
+  useEffect(() => {
+    localStorage.setItem('lingua_capture_chunk_ms', chunkMs.toString());
+  }, [chunkMs]);
+
+  useEffect(() => {
+    localStorage.setItem('lingua_voice_record_audio', String(recordAudio));
+  }, [recordAudio]);
+
+  useEffect(() => {
+    saveMicrophoneSettings(microphoneSettings);
+    microphoneSettingsRef.current = microphoneSettings;
+  }, [microphoneSettings]);
+
+  useEffect(() => {
+    saveOutputSettings(outputSettings);
+  }, [outputSettings]);
+
+  useEffect(() => {
+    captureRef.current?.setGain(microphoneSettings.gain);
+  }, [microphoneSettings.gain]);
+
+  // Device and processing changes need a new stream; apply them to a running session immediately.
+  useEffect(() => {
+    if (isActive) switchMicrophone();
+  }, [microphoneSettings.deviceId, microphoneSettings.echoCancellation, microphoneSettings.noiseSuppression, microphoneSettings.autoGainControl]);
+
+  useEffect(() => {
+    localStorage.setItem('lingua_capture_mode', captureMode);
+  }, [captureMode]);
+
+  useEffect(() => {
+    localStorage.setItem('lingua_vad_threshold_db', vadThresholdDb.toString());
+    vadThresholdRef.current = vadThresholdDb;
+  }, [vadThresholdDb]);
+
+  useEffect(() => {
+    localStorage.setItem('lingua_ptt_key', pushToTalkKey);
+  }, [pushToTalkKey]);
+
+  // Push-to-talk key: held down to transmit. Typing in form fields never triggers it.
+  useEffect(() => {
+    if (!isActive || captureMode !== 'push-to-talk' || isBindingKey || isFaceToFace) return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select');
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== pushToTalkKey || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      setTalking(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== pushToTalkKey) return;
+      e.preventDefault();
+      setTalking(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [isActive, captureMode, pushToTalkKey, isBindingKey, isFaceToFace]);
+
+  useEffect(() => {
+    if (!isBindingKey) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      if (e.code !== 'Escape') setPushToTalkKey(e.code);
+      setIsBindingKey(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isBindingKey]);
+
+  useEffect(() => {
+    saveGlossary(glossary);
+  }, [glossary]);
+
+  // The interpreter works in both directions, so terms defined for either direction apply.
+  const pairGlossary = useMemo(
+    () => getGlossaryForPair(glossary, sourceLanguage, targetLanguage, true),
+    [glossary, sourceLanguage, targetLanguage]
+  );
+
+  // Turns of a conversation that match the language filter; all of them when no language is picked.
+  const turnsForFilter = (item: VoiceHistoryItem) =>
+    historyLanguage ? item.messages.filter(t => turnInvolves(t, historyLanguage)) : item.messages;
+
   const filteredHistory = useMemo(() => {
-    if (!searchQuery.trim()) return history;
-    const query = searchQuery.toLowerCase();
-    return history.filter(item => 
-      item.messages.some(m => m.text.toLowerCase().includes(query)) ||
-      (item.summary && item.summary.toLowerCase().includes(query))
-    );
-  }, [history, searchQuery]);
+    const query = searchQuery.trim().toLowerCase();
+    return history.filter(item => {
+      const turns = turnsForFilter(item);
+      if (turns.length === 0) return false;
+      if (!query) return true;
+      return turns.some(t => t.original.toLowerCase().includes(query) || t.translation.toLowerCase().includes(query)) ||
+        (!historyLanguage && !!item.summary && item.summary.toLowerCase().includes(query));
+    });
+  }, [history, searchQuery, historyLanguage]);
 
   useEffect(() => {
     return () => {
       stopSession();
+      stopPlayback();
     };
   }, []);
 
-  const saveCurrentSessionToHistory = (msgs: Array<{ role: 'user' | 'model'; text: string }>) => {
+  const saveCurrentSessionToHistory = (msgs: VoiceTurn[]) => {
     if (msgs.length === 0) return;
     
-    const firstMsg = msgs[0].text;
+    const firstMsg = msgs[0].original || msgs[0].translation;
     const summary = firstMsg.length > 60 ? firstMsg.substring(0, 60) + '...' : firstMsg;
 
     const newItem: VoiceHistoryItem = {
       id: crypto.randomUUID(),
       timestamp: Date.now(),
       messages: [...msgs],
-      summary
+      summary,
+      sourceLanguage,
+      targetLanguage,
+      voice: selectedVoice
     };
 
     setHistory(prev => [newItem, ...prev].slice(0, 30));
   };
 
+  // Streams microphone chunks from the capture worklet into the session through the selected capture mode.
+  const beginCapture = (stream: MediaStream) => {
+    const captureCtx = audioCtxRef.current!;
+    const mode = captureMode;
+    const voiceGate = mode === 'vad' ? createVoiceGate(chunkMs) : null;
+    updateTransmitting(isFaceToFaceRef.current
+      ? isTalkingRef.current
+      : mode === 'continuous' || (mode === 'push-to-talk' && isTalkingRef.current));
+    startAudioCapture(captureCtx, stream, {
+      sampleRate: INPUT_SAMPLE_RATE,
+      chunkMs,
+      gain: microphoneSettingsRef.current.gain,
+      onChunk: (pcm, level) => {
+        setVisualizerData(prev => [...prev.slice(1), Math.max(5, level * 300)]);
+        setInputLevelDb(levelToDb(level));
+
+        let outgoing = [pcm];
+        if (isFaceToFaceRef.current) {
+          // Face to face, each person taps to talk whatever the capture mode.
+          if (!isTalkingRef.current) outgoing = [];
+        } else if (voiceGate) {
+          const gate = voiceGate(pcm, level, vadThresholdRef.current);
+          outgoing = gate.send;
+          updateTransmitting(gate.speaking);
+          if (gate.ended) {
+            liveSessionRef.current?.endAudioStream();
+          }
+        } else if (mode === 'push-to-talk' && !isTalkingRef.current) {
+          outgoing = [];
+        }
+
+        for (const chunk of outgoing) {
+          if (recordingRef.current.enabled) {
+            recordingRef.current.input.push(chunk);
+          }
+          sendAudioChunk(chunk);
+        }
+      }
+    }).then(capture => {
+      // The session may have ended while the worklet module was loading.
+      if (audioCtxRef.current !== captureCtx) {
+        capture.stop();
+        return;
+      }
+      captureRef.current = capture;
+      stopDeviceWatchRef.current?.();
+      stopDeviceWatchRef.current = watchInputDevices(stream, microphoneSettingsRef.current.deviceId, switchMicrophone);
+    }).catch(err => {
+      if (audioCtxRef.current !== captureCtx) return;
+      console.error('Failed to start audio capture:', err);
+      reportError(err, true);
+      stopSession();
+    });
+  };
+
+  // Re-opens the microphone with the current settings (or after a device change) without ending the session.
+  const switchMicrophone = async () => {
+    const ctx = audioCtxRef.current;
+    if (!isActiveRef.current || !ctx) return;
+
+    try {
+      const stream = await openMicrophone(microphoneSettingsRef.current);
+      if (audioCtxRef.current !== ctx) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      captureRef.current?.stop();
+      captureRef.current = null;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = stream;
+      beginCapture(stream);
+    } catch (err) {
+      console.error('Failed to switch microphone:', err);
+      reportError(err);
+    }
+  };
+
   const startSession = async () => {
     if (isActive) return;
     setIsConnecting(true);
     setError(null);
     setTranscriptions([]);
+    stopPlayback();
+    recordingRef.current = { enabled: recordAudio, input: [], output: [] };
     
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await openMicrophone(microphoneSettings);
       streamRef.current = stream;
 
-      audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      // Capture at the device's native rate; the worklet resamples to what the live model expects.
+      audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const router = await createOutputRouter(outputSettings, 24000);
+      outputRouterRef.current = router;
+      nextStartTimeRef.current.clear();
+      for (const listener of LISTENERS) {
+        const { ctx, destination } = router.routeFor(listener);
+        if (!playersRef.current.has(destination)) {
+          playersRef.current.set(destination, await createStretchPlayer(ctx, destination, speechRateRef.current));
+        }
+      }
+      
+      connectSession(false);
+    } catch (err) {
+      console.error('Failed to start session:', err);
+      reportError(err, true);
+      setIsConnecting(false);
+      stopSession();
+    }
+  };
+
+  const handleLiveMessage = async (event: LiveSessionEvent) => {
+    if (event.inputTranscription) {
+      currentTranscriptionRef.current.user += event.inputTranscription;
+    }
+    if (event.outputTranscription) {
+      currentTranscriptionRef.current.model += event.outputTranscription;
+    }
+
+    const audioData = event.audio;
+    if (audioData && outputRouterRef.current) {
+      const route = outputRouterRef.current.routeFor(outputSettings.mode === 'single' ? 'target' : listenerForCurrentTurn());
+      const outCtx = route.ctx;
+      const player = playersRef.current.get(route.destination);
       
-      const systemInstruction = `You are a professional 2-way live translation assistant. The user is currently in a conversation between ${sourceLanguage} and ${targetLanguage}. 
-- When you hear ${sourceLanguage}, translate it into ${targetLanguage} and speak ONLY the translation.
-- When you hear ${targetLanguage}, translate it into ${sourceLanguage} and speak ONLY the translation.
-- If you are unsure which of the two languages is being spoken, use the context to decide.
-- Do not add conversational filler. Speak naturally and concisely.`;
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          outputAudioTranscription: {},
-          inputAudioTranscription: {},
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } },
-          },
-          systemInstruction,
+      try {
+        const pcm = new Int16Array(decode(audioData).buffer);
+        if (recordingRef.current.enabled) {
+          recordingRef.current.output.push(pcm);
+        }
+        // The player keeps chunks of a turn back to back; the clock keeps turns on one output in order.
+        const startAt = Math.max(nextStartTimeRef.current.get(outCtx) ?? 0, outCtx.currentTime);
+        player?.enqueue(pcmToFloat32(pcm), startAt);
+        nextStartTimeRef.current.set(outCtx, startAt + pcm.length / 24000 / speechRateRef.current);
+      } catch (e) {
+        console.error('Audio decoding error:', e);
+      }
+    }
+
+    if (event.interrupted) {
+      playersRef.current.forEach(player => player.clear());
+      nextStartTimeRef.current.clear();
+    }
+
+    if (event.turnComplete) {
+      playersRef.current.forEach(player => player.flush());
+      completeTurn();
+    }
+  };
+
+  // Moves the transcripts gathered for the current turn into the conversation.
+  const completeTurn = () => {
+    const u = currentTranscriptionRef.current.user.trim();
+    const m = currentTranscriptionRef.current.model.trim();
+    
+    if (u || m) {
+      const turn: VoiceTurn = {
+        original: u,
+        translation: m,
+        ...detectTurnLanguages(u, m, [sourceLanguage, targetLanguage]),
+        timestamp: Date.now(),
+        originalAudioId: u ? storeRecordedTurn('input') : undefined,
+        translationAudioId: m ? storeRecordedTurn('output') : undefined,
+      };
+      setTranscriptions(prev => [...prev, turn]);
+    }
+    currentTranscriptionRef.current = { user: '', model: '' };
+    turnListenerRef.current = null;
+    recordingRef.current.input = [];
+    recordingRef.current.output = [];
+  };
+
+  // Opens a live session. A reconnect is handed the recent transcript so the interpreter keeps its context,
+  // and the capture that kept running meanwhile is flushed into it once connected.
+  const connectSession = (isReconnect: boolean) => {
+    const history = isReconnect
+      ? turnsToContext(transcriptionsRef.current).slice(-CONTEXT_TURNS)
+      : undefined;
+    const sessionPromise = provider.connectLive({
+      mode: 'interpret',
+      sourceLanguage,
+      targetLanguage,
+      voice: selectedVoice,
+      glossary: pairGlossary,
+      history,
+      callbacks: {
+        onopen: () => {
+          if (isReconnect) return;
+          isActiveRef.current = true;
+          setIsActive(true);
+          setIsConnecting(false);
+          beginCapture(streamRef.current!);
         },
-        callbacks: {
-          onopen: () => {
-            setIsActive(true);
-            setIsConnecting(false);
-            
-            const source = audioCtxRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = audioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              
-              const sum = inputData.reduce((a, b) => a + Math.abs(b), 0);
-              const avg = sum / inputData.length;
-              setVisualizerData(prev => [...prev.slice(1), Math.max(5, avg * 300)]);
-
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioCtxRef.current!.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData) {
-              const outCtx = outputAudioCtxRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outCtx.currentTime);
-              
-              try {
-                const audioBuffer = await decodeAudioData(decode(audioData), outCtx, 24000, 1);
-                const source = outCtx.createBufferSource();
-                source.buffer = audioBuffer;
-                
-                // Apply speed customization
-                source.playbackRate.value = speechRate;
-                
-                source.connect(outCtx.destination);
-                source.onended = () => {
-                  sourcesRef.current.delete(source);
-                };
-                
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += audioBuffer.duration / speechRate;
-                sourcesRef.current.add(source);
-              } catch (e) {
-                console.error('Audio decoding error:', e);
-              }
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(src => {
-                try { src.stop(); } catch(e) {}
-              });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-
-            if (message.serverContent?.inputTranscription) {
-              currentTranscriptionRef.current.user += message.serverContent.inputTranscription.text;
-            }
-            if (message.serverContent?.outputTranscription) {
-              currentTranscriptionRef.current.model += message.serverContent.outputTranscription.text;
-            }
-
-            if (message.serverContent?.turnComplete) {
-              const u = currentTranscriptionRef.current.user.trim();
-              const m = currentTranscriptionRef.current.model.trim();
-              
-              if (u || m) {
-                setTranscriptions(prev => {
-                  const updated = [
-                    ...prev,
-                    ...(u ? [{ role: 'user' as const, text: u }] : []),
-                    ...(m ? [{ role: 'model' as const, text: m }] : [])
-                  ];
-                  return updated.slice(-20);
-                });
-              }
-              currentTranscriptionRef.current = { user: '', model: '' };
-            }
-          },
-          onerror: (e) => {
-            console.error('Live session error:', e);
-            setError(`Session error: ${parseApiError(e)}`);
-            stopSession();
-          },
-          onclose: () => {
-            stopSession();
-          }
+        onmessage: handleLiveMessage,
+        onerror: (e) => {
+          console.error('Live session error:', e);
+          handleConnectionLost(sessionPromise, e);
+        },
+        onclose: (close) => {
+          handleConnectionLost(sessionPromise, undefined, close);
         }
-      });
+      }
+    });
+    sessionPromiseRef.current = sessionPromise;
 
-      sessionPromiseRef.current = sessionPromise;
+    sessionPromise.then(session => {
+      if (sessionPromiseRef.current !== sessionPromise) return;
+      liveSessionRef.current = session;
+      reconnectAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      const pending = pendingAudioRef.current;
+      pendingAudioRef.current = [];
+      pending.forEach(chunk => session.sendAudio(createBlob(chunk, INPUT_SAMPLE_RATE)));
+      // The speaker may have finished while we were offline.
+      if (pending.length > 0 && !isTransmittingRef.current) session.endAudioStream();
+    }).catch(err => {
+      handleConnectionLost(sessionPromise, err);
+    });
+  };
 
-    } catch (err) {
-      console.error('Failed to start session:', err);
-      setError(parseApiError(err));
-      setIsConnecting(false);
+  // Sends captured audio to the connected session, or holds on to it until the connection is back.
+  const sendAudioChunk = (chunk: Int16Array) => {
+    const session = liveSessionRef.current;
+    if (session) {
+      session.sendAudio(createBlob(chunk, INPUT_SAMPLE_RATE));
+      return;
+    }
+    const pending = pendingAudioRef.current;
+    pending.push(chunk);
+    let samples = pending.reduce((sum, c) => sum + c.length, 0);
+    while (samples > MAX_BUFFERED_SAMPLES) samples -= pending.shift()!.length;
+  };
+
+  // Connection drops during a running session are retried with backoff (never sooner than the service
+  // asks) while the microphone keeps capturing. A session that never opened, fails in a way that
+  // retrying cannot fix, or runs out of attempts, ends with an error.
+  const handleConnectionLost = (sessionPromise: Promise<LiveSession>, error?: unknown, close?: ConnectionClose) => {
+    // Ignore sessions we already replaced or closed ourselves.
+    if (sessionPromiseRef.current !== sessionPromise) return;
+    sessionPromiseRef.current = null;
+    liveSessionRef.current = null;
+    sessionPromise.then(session => session.close()).catch(() => {});
+
+    const fatal = isFatalConnectionLoss(error, close);
+    if (!isActiveRef.current || reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS || fatal) {
+      const cause = error ?? (fatal && close ? connectionCloseError(close) : undefined);
+      if (cause) {
+        reportError(cause, true, 'Session error: ');
+      } else if (isActiveRef.current) {
+        setError('Lost the connection to the translation service and could not reconnect.');
+      }
       stopSession();
+      return;
+    }
+
+    completeTurn();
+    const attempt = ++reconnectAttemptRef.current;
+    setReconnectAttempt(attempt);
+    const backoff = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    const delay = Math.max(backoff, (error ? classifyError(error).retryAfterMs : undefined) ?? 0);
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      connectSession(true);
+    }, delay);
+  };
+
+  const reportError = (err: unknown, canRetry = false, prefix = '') => {
+    const classified = classifyError(err);
+    setError(prefix + classified.message);
+    setErrorDetail({ error: classified, occurredAt: Date.now(), canRetry });
+  };
+
+  const updateTransmitting = (value: boolean) => {
+    if (isTransmittingRef.current === value) return;
+    isTransmittingRef.current = value;
+    setIsTransmitting(value);
+  };
+
+  const setTalking = (talking: boolean) => {
+    if (isTalkingRef.current === talking) return;
+    isTalkingRef.current = talking;
+    updateTransmitting(talking);
+    if (!talking) {
+      liveSessionRef.current?.endAudioStream();
+    }
+  };
+
+  const toggleFaceToFace = (on: boolean) => {
+    isFaceToFaceRef.current = on;
+    setIsFaceToFace(on);
+    setTalkingSide(null);
+    setTalking(false);
+    updateTransmitting(!on && captureMode === 'continuous');
+  };
+
+  // Tap to talk in face-to-face mode. Knowing who is talking, the answer goes to the other person's output.
+  const toggleSideTalk = (side: Listener) => {
+    if (talkingSide === side) {
+      setTalkingSide(null);
+      setTalking(false);
+      return;
+    }
+    setTalking(false);
+    turnListenerRef.current = side === 'source' ? 'target' : 'source';
+    setTalkingSide(side);
+    setTalking(true);
+  };
+
+  // Which listener the model's current answer is for: whoever speaks the language it is in. Decided
+  // from the first transcript text of the turn and kept for the rest of it.
+  const listenerForCurrentTurn = (): Listener => {
+    if (turnListenerRef.current) return turnListenerRef.current;
+    const pair = [sourceLanguage, targetLanguage];
+    const { user, model } = currentTranscriptionRef.current;
+    let listener: Listener | null = null;
+    if (model.trim()) {
+      listener = guessLanguage(model, pair) === sourceLanguage ? 'source' : 'target';
+    } else if (user.trim()) {
+      listener = guessLanguage(user, pair) === sourceLanguage ? 'target' : 'source';
+    }
+    if (listener) turnListenerRef.current = listener;
+    return listener ?? 'target';
+  };
+
+  // Writes the buffered audio for one side of the finished turn and returns its key.
+  const storeRecordedTurn = (side: 'input' | 'output'): string | undefined => {
+    const recording = recordingRef.current;
+    if (!recording.enabled || recording[side].length === 0) return undefined;
+
+    const id = crypto.randomUUID();
+    const pcm = concatPcm(recording[side]);
+    saveTurnAudio({ id, sampleRate: side === 'input' ? INPUT_SAMPLE_RATE : 24000, pcm: pcm.buffer as ArrayBuffer })
+      .catch(e => console.error('Failed to store turn audio', e));
+    return id;
+  };
+
+  const stopPlayback = () => {
+    playbackRunRef.current++;
+    try { playbackSourceRef.current?.stop(); } catch (e) {}
+    playbackSourceRef.current = null;
+    setPlayingAudioId(null);
+  };
+
+  // Plays recorded clips one after another; starting another playback or a session cancels it.
+  const playRecordedTurns = async (audioIds: string[]) => {
+    stopPlayback();
+    const run = playbackRunRef.current;
+    if (!playbackCtxRef.current) {
+      playbackCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    const ctx = playbackCtxRef.current;
+
+    try {
+      for (const id of audioIds) {
+        const clip = await loadTurnAudio(id);
+        if (run !== playbackRunRef.current) return;
+        if (!clip) continue;
+
+        const source = ctx.createBufferSource();
+        source.buffer = await turnAudioToBuffer(clip, ctx);
+        source.connect(ctx.destination);
+        playbackSourceRef.current = source;
+        setPlayingAudioId(id);
+        await new Promise<void>(resolve => {
+          source.onended = () => resolve();
+          source.start();
+        });
+        if (run !== playbackRunRef.current) return;
+      }
+    } catch (e) {
+      console.error('Failed to play recorded audio', e);
+      setError('Could not play the recorded audio for this conversation.');
+    }
+    if (run === playbackRunRef.current) {
+      playbackSourceRef.current = null;
+      setPlayingAudioId(null);
+    }
+  };
+
+  const replayHistoryItem = (item: VoiceHistoryItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setTranscriptions(item.messages);
+    setShowHistory(false);
+    playRecordedTurns(turnAudioIds(item.messages));
+  };
+
+  const downloadConversationAudio = async (item: VoiceHistoryItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExportMenuId(null);
+    try {
+      downloadBlob(await exportConversationWav(turnAudioIds(turnsForFilter(item))), conversationFileName(item, 'wav'));
+    } catch (err) {
+      console.error('Failed to export conversation audio', err);
+      setError(err instanceof Error ? err.message : 'Failed to export conversation audio.');
     }
   };
 
   const stopSession = () => {
-    if (isActive) {
+    if (isActiveRef.current) {
       setTranscriptions(current => {
         saveCurrentSessionToHistory(current);
         return current;
       });
     }
 
+    isActiveRef.current = false;
     setIsActive(false);
     setIsConnecting(false);
+
+    if (reconnectTimerRef.current !== null) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    pendingAudioRef.current = [];
     
+    captureRef.current?.stop();
+    captureRef.current = null;
+    stopDeviceWatchRef.current?.();
+    stopDeviceWatchRef.current = null;
+    isTalkingRef.current = false;
+    setTalkingSide(null);
+    updateTransmitting(false);
+    setInputLevelDb(-100);
+
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -269,18 +750,18 @@ const LiveVoiceTranslator: React.FC = () => {
       audioCtxRef.current = null;
     }
 
-    if (outputAudioCtxRef.current) {
-      outputAudioCtxRef.current.close();
-      outputAudioCtxRef.current = null;
+    if (outputRouterRef.current) {
+      outputRouterRef.current.close();
+      outputRouterRef.current = null;
     }
 
-    sourcesRef.current.forEach(src => {
-      try { src.stop(); } catch(e) {}
-    });
-    sourcesRef.current.clear();
+    playersRef.current.forEach(player => player.disconnect());
+    playersRef.current.clear();
     
-    sessionPromiseRef.current?.then(session => session.close());
+    const sessionPromise = sessionPromiseRef.current;
     sessionPromiseRef.current = null;
+    liveSessionRef.current = null;
+    sessionPromise?.then(session => session.close()).catch(() => {});
   };
 
   const swapLanguages = () => {
@@ -300,11 +781,22 @@ const LiveVoiceTranslator: React.FC = () => {
     setHistory(prev => prev.filter(item => item.id !== id));
   };
 
+  const downloadTranscript = (item: VoiceHistoryItem, format: TranscriptFormat, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const { blob, fileName } = exportTranscript(item, format, historyLanguage || undefined);
+    downloadBlob(blob, fileName);
+    setExportMenuId(null);
+  };
+
   const selectHistoryItem = (item: VoiceHistoryItem) => {
+    stopPlayback();
     setTranscriptions(item.messages);
     setShowHistory(false);
   };
 
+  const visibleTurns = transcriptions.slice(-VISIBLE_TURNS);
+  const firstVisibleTurn = transcriptions.length - visibleTurns.length;
+
   return (
     <div className="flex flex-col h-full space-y-6">
       <div className="bg-white p-3 rounded-2xl border border-slate-200 shadow-sm flex items-center justify-between gap-4">
@@ -316,7 +808,7 @@ const LiveVoiceTranslator: React.FC = () => {
             className="flex-1 bg-slate-50 border border-slate-300 rounded-lg px-3 py-2 text-sm font-semibold focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer disabled:opacity-50 transition-all"
           >
             {ALL_LANGUAGES.map(lang => (
-              <option key={`voice-source-${lang}`} value={lang}>{lang}</option>
+              <option key={`voice-source-${lang}`} value={lang}>{lang} · {getLanguageInfo(lang).nativeName}</option>
             ))}
           </select>
           
@@ -335,11 +827,33 @@ const LiveVoiceTranslator: React.FC = () => {
             className="flex-1 bg-slate-50 border border-slate-300 rounded-lg px-3 py-2 text-sm font-semibold focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer disabled:opacity-50 transition-all"
           >
             {ALL_LANGUAGES.map(lang => (
-              <option key={`voice-target-${lang}`} value={lang}>{lang}</option>
+              <option key={`voice-target-${lang}`} value={lang}>{lang} · {getLanguageInfo(lang).nativeName}</option>
             ))}
           </select>
         </div>
 
+        <button 
+          onClick={() => toggleFaceToFace(true)}
+          className="w-10 h-10 rounded-lg flex items-center justify-center transition-all bg-slate-100 text-slate-500 hover:bg-slate-200"
+          title="Face-to-face mode"
+        >
+          <i className="fa-solid fa-people-arrows"></i>
+        </button>
+
+        <button 
+          onClick={() => setShowGlossary(true)}
+          disabled={isActive || isConnecting}
+          className="w-10 h-10 rounded-lg flex items-center justify-center transition-all relative bg-slate-100 text-slate-500 hover:bg-slate-200 disabled:opacity-50"
+          title="Glossary"
+        >
+          <i className="fa-solid fa-book"></i>
+          {pairGlossary.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 bg-indigo-600 text-white text-[9px] font-bold rounded-full flex items-center justify-center">
+              {pairGlossary.length}
+            </span>
+          )}
+        </button>
+
         <button 
           onClick={() => setShowSettings(!showSettings)}
           className={`w-10 h-10 rounded-lg flex items-center justify-center transition-all ${
@@ -396,7 +910,126 @@ const LiveVoiceTranslator: React.FC = () => {
                 </div>
               </div>
               <p className="text-[10px] text-slate-400 italic">Changing voice settings while a session is active will take effect on the next utterance.</p>
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block pt-2">Audio Chunk Size</label>
+              <div className="grid grid-cols-4 gap-1">
+                {CHUNK_DURATIONS_MS.map(ms => (
+                  <button
+                    key={ms}
+                    onClick={() => setChunkMs(ms)}
+                    disabled={isActive || isConnecting}
+                    className={`px-2 py-2 rounded-lg text-[11px] font-bold transition-all disabled:opacity-50 ${
+                      chunkMs === ms ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {ms} ms
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400 italic">Smaller chunks lower latency; larger chunks send fewer, bigger messages on slow connections.</p>
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block pt-2">Recording</label>
+              <label className={`flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100 transition-colors ${isActive || isConnecting ? 'opacity-50' : 'cursor-pointer hover:bg-slate-100'}`}>
+                <div className="flex items-center space-x-3">
+                  <i className="fa-solid fa-circle-dot text-red-500"></i>
+                  <span className="text-xs font-semibold text-slate-700">Save Conversation Audio</span>
+                </div>
+                <div className="relative">
+                  <input 
+                    type="checkbox" 
+                    className="sr-only" 
+                    checked={recordAudio} 
+                    disabled={isActive || isConnecting}
+                    onChange={() => setRecordAudio(!recordAudio)}
+                  />
+                  <div className={`block w-8 h-5 rounded-full transition-colors ${recordAudio ? 'bg-indigo-600' : 'bg-slate-300'}`}></div>
+                  <div className={`dot absolute left-1 top-1 bg-white w-3 h-3 rounded-full transition-transform ${recordAudio ? 'translate-x-3' : ''}`}></div>
+                </div>
+              </label>
+              <p className="text-[10px] text-slate-400 italic">Your voice and the translated speech are stored on this device with each voice log for replay and WAV export.</p>
+            </div>
+          </div>
+
+          <div className="mt-6 pt-6 border-t border-slate-100 space-y-3">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Capture Mode</label>
+            <div className="grid grid-cols-3 gap-2">
+              {CAPTURE_MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => setCaptureMode(mode.id)}
+                  disabled={isActive || isConnecting}
+                  className={`px-3 py-2 rounded-xl text-xs flex flex-col items-center transition-all disabled:opacity-50 ${
+                    captureMode === mode.id
+                    ? 'bg-indigo-600 text-white shadow-md'
+                    : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  <i className={`${mode.icon} mb-1`}></i>
+                  <span className="font-bold">{mode.label}</span>
+                  <span className={`text-[9px] opacity-70 ${captureMode === mode.id ? 'text-indigo-100' : 'text-slate-400'}`}>{mode.desc}</span>
+                </button>
+              ))}
             </div>
+
+            {captureMode === 'vad' && (
+              <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 space-y-2">
+                <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                  <span>Speech Threshold ({vadThresholdDb} dB)</span>
+                  {isActive && <span>Input {Math.round(inputLevelDb)} dB</span>}
+                </div>
+                <input
+                  type="range"
+                  min={VAD_THRESHOLD_RANGE_DB.min}
+                  max={VAD_THRESHOLD_RANGE_DB.max}
+                  step="1"
+                  value={vadThresholdDb}
+                  onChange={(e) => setVadThresholdDb(parseInt(e.target.value, 10))}
+                  className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+                {isActive && (
+                  <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full transition-all duration-75 ${inputLevelDb >= vadThresholdDb ? 'bg-emerald-500' : 'bg-slate-400'}`}
+                      style={{ width: `${Math.min(100, Math.max(0, (inputLevelDb - VAD_THRESHOLD_RANGE_DB.min) / (VAD_THRESHOLD_RANGE_DB.max - VAD_THRESHOLD_RANGE_DB.min) * 100))}%` }}
+                    ></div>
+                  </div>
+                )}
+                <div className="flex justify-between text-[10px] text-slate-400 font-bold">
+                  <span>Sensitive</span>
+                  <span>Ignore Noise</span>
+                </div>
+              </div>
+            )}
+
+            {captureMode === 'push-to-talk' && (
+              <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 flex items-center justify-between">
+                <span className="text-xs font-semibold text-slate-700">Talk Key</span>
+                <button
+                  onClick={() => setIsBindingKey(true)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${
+                    isBindingKey ? 'bg-indigo-600 text-white border-indigo-600 animate-pulse' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+                  }`}
+                >
+                  {isBindingKey ? 'Press a key…' : describeKey(pushToTalkKey)}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <MicrophoneSettingsPanel
+              settings={microphoneSettings}
+              onChange={setMicrophoneSettings}
+              isSessionActive={isActive || isConnecting}
+            />
+          </div>
+
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <OutputSettingsPanel
+              settings={outputSettings}
+              onChange={setOutputSettings}
+              sourceLanguage={sourceLanguage}
+              targetLanguage={targetLanguage}
+              disabled={isActive || isConnecting}
+            />
           </div>
         </div>
       )}
@@ -407,6 +1040,14 @@ const LiveVoiceTranslator: React.FC = () => {
           <div className="flex-1">
             <p className="font-bold mb-0.5">Voice Session Error</p>
             <p>{error}</p>
+            {errorDetail && (
+              <ErrorActions
+                error={errorDetail.error}
+                occurredAt={errorDetail.occurredAt}
+                onRetry={errorDetail.canRetry && !isActive && !isConnecting ? startSession : undefined}
+                onOpenMicrophoneSettings={() => setShowSettings(true)}
+              />
+            )}
           </div>
           <button onClick={() => setError(null)} className="ml-2 text-red-400 hover:text-red-600 transition-colors">
             <i className="fa-solid fa-xmark"></i>
@@ -424,12 +1065,21 @@ const LiveVoiceTranslator: React.FC = () => {
             {visualizerData.map((val, idx) => (
               <div 
                 key={idx} 
-                className={`w-1.5 rounded-full transition-all duration-75 ${isActive ? 'bg-indigo-400 shadow-[0_0_10px_rgba(129,140,248,0.5)]' : 'bg-slate-700'}`}
+                className={`w-1.5 rounded-full transition-all duration-75 ${
+                  isActive && isTransmitting ? 'bg-indigo-400 shadow-[0_0_10px_rgba(129,140,248,0.5)]' : isActive ? 'bg-slate-500' : 'bg-slate-700'
+                }`}
                 style={{ height: `${val}%` }}
               ></div>
             ))}
           </div>
 
+          {isActive && reconnectAttempt > 0 && (
+            <div className="flex items-center px-4 py-2 rounded-full bg-amber-500/15 border border-amber-400/30 text-amber-200 text-xs font-semibold">
+              <i className="fa-solid fa-circle-notch fa-spin mr-2"></i>
+              Connection lost · reconnecting (attempt {reconnectAttempt} of {MAX_RECONNECT_ATTEMPTS}). Your speech is kept and sent once it is back.
+            </div>
+          )}
+
           <div className="flex flex-col items-center">
             {isConnecting ? (
               <div className="flex flex-col items-center text-white">
@@ -437,16 +1087,35 @@ const LiveVoiceTranslator: React.FC = () => {
                 <p className="font-medium animate-pulse">Establishing secure link...</p>
               </div>
             ) : isActive ? (
-              <button 
-                onClick={stopSession}
-                className="group relative flex items-center justify-center"
-              >
-                <div className="absolute inset-0 bg-red-500/20 blur-2xl rounded-full scale-150 animate-pulse"></div>
-                <div className="w-20 h-20 bg-red-500 rounded-full flex items-center justify-center text-white shadow-lg hover:bg-red-600 transition-all z-10">
-                  <i className="fa-solid fa-stop text-2xl"></i>
-                </div>
-                <span className="absolute -bottom-10 text-white font-bold tracking-widest uppercase text-xs">End Session</span>
-              </button>
+              <div className="flex items-center space-x-12">
+                <button 
+                  onClick={stopSession}
+                  className="group relative flex items-center justify-center"
+                >
+                  <div className="absolute inset-0 bg-red-500/20 blur-2xl rounded-full scale-150 animate-pulse"></div>
+                  <div className="w-20 h-20 bg-red-500 rounded-full flex items-center justify-center text-white shadow-lg hover:bg-red-600 transition-all z-10">
+                    <i className="fa-solid fa-stop text-2xl"></i>
+                  </div>
+                  <span className="absolute -bottom-10 text-white font-bold tracking-widest uppercase text-xs">End Session</span>
+                </button>
+                {captureMode === 'push-to-talk' && (
+                  <button
+                    onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setTalking(true); }}
+                    onPointerUp={() => setTalking(false)}
+                    onPointerCancel={() => setTalking(false)}
+                    className="group relative flex items-center justify-center touch-none select-none"
+                  >
+                    <div className={`w-20 h-20 rounded-full flex items-center justify-center text-white shadow-lg transition-all z-10 ${
+                      isTransmitting ? 'bg-emerald-500 scale-110' : 'bg-indigo-600 hover:bg-indigo-700'
+                    }`}>
+                      <i className="fa-solid fa-microphone text-2xl"></i>
+                    </div>
+                    <span className="absolute -bottom-10 whitespace-nowrap text-white font-bold tracking-widest uppercase text-xs">
+                      {isTransmitting ? 'Talking' : `Hold · ${describeKey(pushToTalkKey)}`}
+                    </span>
+                  </button>
+                )}
+              </div>
             ) : (
               <button 
                 onClick={startSession}
@@ -488,24 +1157,76 @@ const LiveVoiceTranslator: React.FC = () => {
               <p className="text-center max-w-[200px]">Transcriptions will appear here when you start talking</p>
             </div>
           ) : (
-            transcriptions.map((t, i) => (
-              <div key={i} className={`flex ${t.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2`}>
-                <div className={`max-w-[80%] rounded-2xl p-4 shadow-sm border ${
-                  t.role === 'user' 
-                  ? 'bg-indigo-600 text-white border-indigo-500 rounded-tr-none' 
-                  : 'bg-white text-slate-800 border-slate-200 rounded-tl-none'
-                }`}>
-                  <div className={`text-[10px] font-bold uppercase mb-1 ${t.role === 'user' ? 'text-indigo-200' : 'text-slate-400'}`}>
-                    {t.role === 'user' ? 'You' : 'Assistant'}
+            visibleTurns.map((t, i) => {
+              // The source-language speaker's turns sit on the right, the other person's on the left.
+              const fromSource = t.sourceLanguage === sourceLanguage;
+              const side = (text: string, language: Language, audioId: string | undefined, label: string) => (
+                <div>
+                  <div className={`text-[10px] font-bold uppercase mb-1 flex items-center justify-between gap-3 ${fromSource ? 'text-indigo-200' : 'text-slate-400'}`}>
+                    <span>{label} · {language}</span>
+                    {audioId && !isActive && (
+                      <button
+                        onClick={() => playingAudioId === audioId ? stopPlayback() : playRecordedTurns([audioId])}
+                        className="hover:opacity-70 transition-opacity"
+                        title={playingAudioId === audioId ? 'Stop' : 'Play recording'}
+                      >
+                        <i className={`fa-solid ${playingAudioId === audioId ? 'fa-stop' : 'fa-play'}`}></i>
+                      </button>
+                    )}
                   </div>
-                  <p className="text-sm leading-relaxed">{t.text}</p>
+                  <p {...languageTextProps(language)} className="text-sm leading-relaxed text-start">{text}</p>
                 </div>
-              </div>
-            ))
+              );
+              return (
+                <div key={firstVisibleTurn + i} className={`flex ${fromSource ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2`}>
+                  <div className={`max-w-[80%] rounded-2xl p-4 shadow-sm border space-y-3 ${
+                    fromSource 
+                    ? 'bg-indigo-600 text-white border-indigo-500 rounded-tr-none' 
+                    : 'bg-white text-slate-800 border-slate-200 rounded-tl-none'
+                  }`}>
+                    {t.original && side(t.original, t.sourceLanguage, t.originalAudioId, 'Original')}
+                    {t.original && t.translation && (
+                      <div className={`border-t ${fromSource ? 'border-indigo-400/50' : 'border-slate-100'}`}></div>
+                    )}
+                    {t.translation && (
+                      <div className={fromSource ? 'text-indigo-50' : 'text-slate-600'}>
+                        {side(t.translation, t.targetLanguage, t.translationAudioId, 'Translation')}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })
           )}
         </div>
       </div>
 
+      {isFaceToFace && (
+        <FaceToFaceView
+          transcriptions={visibleTurns}
+          sourceLanguage={sourceLanguage}
+          targetLanguage={targetLanguage}
+          isActive={isActive}
+          isConnecting={isConnecting}
+          error={error}
+          talkingSide={talkingSide}
+          onToggleTalk={toggleSideTalk}
+          onStart={startSession}
+          onStop={stopSession}
+          onExit={() => toggleFaceToFace(false)}
+        />
+      )}
+
+      {showGlossary && (
+        <GlossaryManager
+          entries={glossary}
+          onChange={setGlossary}
+          sourceLanguage={sourceLanguage}
+          targetLanguage={targetLanguage}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
+
       {showHistory && (
         <div className="fixed inset-0 z-[60] flex justify-end">
           <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={() => setShowHistory(false)}></div>
@@ -534,6 +1255,22 @@ const LiveVoiceTranslator: React.FC = () => {
                   className="w-full pl-10 pr-4 py-2 bg-slate-100 border-none rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
                 />
               </div>
+              <div className="flex items-center mt-3 space-x-2">
+                <i className="fa-solid fa-language text-slate-400"></i>
+                <select
+                  value={historyLanguage}
+                  onChange={(e) => setHistoryLanguage(e.target.value as Language | '')}
+                  className="flex-1 bg-slate-100 border-none rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-600 focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer"
+                >
+                  <option value="">All languages</option>
+                  {ALL_LANGUAGES.map(lang => (
+                    <option key={`history-${lang}`} value={lang}>{lang} · {getLanguageInfo(lang).nativeName}</option>
+                  ))}
+                </select>
+              </div>
+              {historyLanguage && (
+                <p className="mt-2 text-[10px] text-slate-400 italic">Search and exports include only turns in or into {historyLanguage}.</p>
+              )}
             </div>
 
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -545,7 +1282,7 @@ const LiveVoiceTranslator: React.FC = () => {
               ) : filteredHistory.length === 0 ? (
                 <div className="h-full flex flex-col items-center justify-center text-slate-300 py-20">
                   <i className="fa-solid fa-magnifying-glass text-4xl mb-3 opacity-20"></i>
-                  <p>No matches for "{searchQuery}"</p>
+                  <p>{searchQuery ? `No matches for "${searchQuery}"` : `No conversations in ${historyLanguage}`}</p>
                 </div>
               ) : (
                 filteredHistory.map((item) => (
@@ -557,16 +1294,64 @@ const LiveVoiceTranslator: React.FC = () => {
                     <div className="flex items-center justify-between mb-2">
                       <div className="text-[10px] font-bold text-indigo-600 uppercase tracking-wider">
                         {item.messages.length} Turns • {new Date(item.timestamp).toLocaleDateString()}
+                        {item.sourceLanguage && item.targetLanguage && (
+                          <span className="text-slate-400"> • {item.sourceLanguage} ↔ {item.targetLanguage}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        {turnAudioIds(item.messages).length > 0 && (
+                          <button
+                            onClick={(e) => replayHistoryItem(item, e)}
+                            className="opacity-0 group-hover:opacity-100 w-7 h-7 rounded-full bg-indigo-50 text-indigo-400 hover:bg-indigo-100 hover:text-indigo-600 transition-all flex items-center justify-center"
+                            title="Replay conversation"
+                          >
+                            <i className="fa-solid fa-play text-xs"></i>
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setExportMenuId(exportMenuId === item.id ? null : item.id); }}
+                          className={`w-7 h-7 rounded-full transition-all flex items-center justify-center ${
+                            exportMenuId === item.id
+                            ? 'bg-indigo-600 text-white'
+                            : 'opacity-0 group-hover:opacity-100 bg-indigo-50 text-indigo-400 hover:bg-indigo-100 hover:text-indigo-600'
+                          }`}
+                          title="Export transcript"
+                        >
+                          <i className="fa-solid fa-file-export text-xs"></i>
+                        </button>
+                        <button
+                          onClick={(e) => deleteHistoryItem(item.id, e)}
+                          className="opacity-0 group-hover:opacity-100 w-7 h-7 rounded-full bg-red-50 text-red-400 hover:bg-red-100 hover:text-red-600 transition-all flex items-center justify-center"
+                        >
+                          <i className="fa-solid fa-trash-can text-xs"></i>
+                        </button>
                       </div>
-                      <button 
-                        onClick={(e) => deleteHistoryItem(item.id, e)}
-                        className="opacity-0 group-hover:opacity-100 w-7 h-7 rounded-full bg-red-50 text-red-400 hover:bg-red-100 hover:text-red-600 transition-all flex items-center justify-center"
-                      >
-                        <i className="fa-solid fa-trash-can text-xs"></i>
-                      </button>
                     </div>
+                    {exportMenuId === item.id && (
+                      <div className="grid grid-cols-2 gap-1 mb-3 animate-in slide-in-from-top-2">
+                        {TRANSCRIPT_FORMATS.map(format => (
+                          <button
+                            key={format.id}
+                            onClick={(e) => downloadTranscript(item, format.id, e)}
+                            className="px-3 py-2 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 text-slate-600 rounded-lg text-[11px] font-bold transition-colors flex items-center text-left"
+                          >
+                            <i className={`${format.icon} mr-2 w-3`}></i>
+                            {format.label}
+                          </button>
+                        ))}
+                        {turnAudioIds(item.messages).length > 0 && (
+                          <button
+                            onClick={(e) => downloadConversationAudio(item, e)}
+                            className="px-3 py-2 bg-slate-50 hover:bg-indigo-50 hover:text-indigo-600 text-slate-600 rounded-lg text-[11px] font-bold transition-colors flex items-center text-left"
+                          >
+                            <i className="fa-solid fa-file-audio mr-2 w-3"></i>
+                            Audio (WAV)
+                          </button>
+                        )}
+                      </div>
+                    )}
                     <p className="text-slate-700 text-sm line-clamp-2 font-medium italic">
-                      "{item.summary}"
+                      "<bdi>{item.summary}</bdi>"
                     </p>
                     <div className="mt-2 text-[10px] text-slate-400">
                       {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
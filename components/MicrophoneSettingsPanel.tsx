@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  MicrophoneSettings, MICROPHONE_GAIN_RANGE, listMicrophones, openMicrophone,
+} from '../utils/microphoneSettings';
+
+interface MicrophoneSettingsPanelProps {
+  settings: MicrophoneSettings;
+  onChange: (settings: MicrophoneSettings) => void;
+  // A running session already owns the microphone and shows its own level.
+  isSessionActive?: boolean;
+}
+
+const PROCESSING_TOGGLES: Array<{ key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string; icon: string }> = [
+  { key: 'echoCancellation', label: 'Echo Cancellation', icon: 'fa-solid fa-arrows-rotate' },
+  { key: 'noiseSuppression', label: 'Noise Suppression', icon: 'fa-solid fa-volume-xmark' },
+  { key: 'autoGainControl', label: 'Auto Gain', icon: 'fa-solid fa-wand-magic-sparkles' },
+];
+
+const MicrophoneSettingsPanel: React.FC<MicrophoneSettingsPanelProps> = ({ settings, onChange, isSessionActive = false }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testLevel, setTestLevel] = useState(0);
+  const [testError, setTestError] = useState<string | null>(null);
+  const testGainRef = useRef<GainNode | null>(null);
+
+  useEffect(() => {
+    const refresh = () => listMicrophones().then(setDevices).catch(e => console.error('Failed to list microphones', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  useEffect(() => {
+    if (isSessionActive) setIsTesting(false);
+  }, [isSessionActive]);
+
+  // The meter reopens the microphone whenever a setting that changes the stream itself changes.
+  useEffect(() => {
+    if (!isTesting) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+    let frame = 0;
+
+    openMicrophone(settings).then(s => {
+      stream = s;
+      if (cancelled) {
+        s.getTracks().forEach(t => t.stop());
+        return;
+      }
+      listMicrophones().then(setDevices).catch(() => {});
+      ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const source = ctx.createMediaStreamSource(s);
+      const gain = ctx.createGain();
+      gain.gain.value = settings.gain;
+      testGainRef.current = gain;
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      source.connect(gain);
+      gain.connect(analyser);
+
+      const samples = new Float32Array(analyser.fftSize);
+      const tick = () => {
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, v) => sum + v * v, 0) / samples.length);
+        setTestLevel(Math.min(1, rms * 4));
+        frame = requestAnimationFrame(tick);
+      };
+      tick();
+    }).catch(err => {
+      console.error('Microphone test failed:', err);
+      setTestError('Could not open the selected microphone.');
+      setIsTesting(false);
+    });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(t => t.stop());
+      ctx?.close();
+      testGainRef.current = null;
+      setTestLevel(0);
+    };
+  }, [isTesting, settings.deviceId, settings.echoCancellation, settings.noiseSuppression, settings.autoGainControl]);
+
+  useEffect(() => {
+    testGainRef.current?.gain.setTargetAtTime(settings.gain, testGainRef.current.context.currentTime, 0.02);
+  }, [settings.gain]);
+
+  const update = (patch: Partial<MicrophoneSettings>) => onChange({ ...settings, ...patch });
+  const hasLabels = devices.some(d => d.label);
+  const selectedMissing = settings.deviceId !== '' && devices.length > 0 && !devices.some(d => d.deviceId === settings.deviceId);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Input Device</label>
+        <select
+          value={selectedMissing ? '' : settings.deviceId}
+          onChange={(e) => update({ deviceId: e.target.value })}
+          className="w-full bg-slate-50 border border-slate-300 rounded-lg px-3 py-2 text-sm font-semibold focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer"
+        >
+          <option value="">System Default</option>
+          {devices.map((device, i) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+          ))}
+        </select>
+        {selectedMissing && (
+          <p className="text-[10px] text-amber-600 font-semibold">The selected microphone is unplugged; using the system default until it returns.</p>
+        )}
+        {!hasLabels && devices.length > 0 && (
+          <p className="text-[10px] text-slate-400 italic">Run a microphone test to allow access and show device names.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-1.5">
+        {PROCESSING_TOGGLES.map(toggle => (
+          <label key={toggle.key} className="flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100 cursor-pointer hover:bg-slate-100 transition-colors">
+            <div className="flex items-center space-x-3">
+              <i className={`${toggle.icon} text-indigo-500 w-4`}></i>
+              <span className="text-xs font-semibold text-slate-700">{toggle.label}</span>
+            </div>
+            <div className="relative">
+              <input
+                type="checkbox"
+                className="sr-only"
+                checked={settings[toggle.key]}
+                onChange={() => update({ [toggle.key]: !settings[toggle.key] })}
+              />
+              <div className={`block w-8 h-5 rounded-full transition-colors ${settings[toggle.key] ? 'bg-indigo-600' : 'bg-slate-300'}`}></div>
+              <div className={`dot absolute left-1 top-1 bg-white w-3 h-3 rounded-full transition-transform ${settings[toggle.key] ? 'translate-x-3' : ''}`}></div>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Input Gain ({settings.gain.toFixed(1)}x)</label>
+        <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 space-y-3">
+          <input
+            type="range"
+            min={MICROPHONE_GAIN_RANGE.min}
+            max={MICROPHONE_GAIN_RANGE.max}
+            step="0.1"
+            value={settings.gain}
+            onChange={(e) => update({ gain: parseFloat(e.target.value) })}
+            className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => { setTestError(null); setIsTesting(!isTesting); }}
+              disabled={isSessionActive}
+              className={`px-3 py-1.5 rounded-lg text-[11px] font-bold transition-all flex items-center shrink-0 disabled:opacity-50 ${
+                isTesting ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              <i className={`fa-solid ${isTesting ? 'fa-stop' : 'fa-microphone'} mr-2`}></i>
+              {isTesting ? 'Stop Test' : 'Test'}
+            </button>
+            <div className="flex-1 h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-75 ${testLevel > 0.9 ? 'bg-red-500' : testLevel > 0.6 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                style={{ width: `${testLevel * 100}%` }}
+              ></div>
+            </div>
+          </div>
+          {testError && <p className="text-[10px] text-red-500 font-semibold">{testError}</p>}
+          {isSessionActive && <p className="text-[10px] text-slate-400 italic">Changes apply to the running session right away.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MicrophoneSettingsPanel;
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { Language } from '../types';
+import {
+  OutputSettings, Listener, OUTPUT_ROUTING_MODES, STEREO_CHANNEL, listSpeakers, supportsOutputSelection,
+} from '../utils/outputRouting';
+
+interface OutputSettingsPanelProps {
+  settings: OutputSettings;
+  onChange: (settings: OutputSettings) => void;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  disabled?: boolean;
+}
+
+const OutputSettingsPanel: React.FC<OutputSettingsPanelProps> = ({ settings, onChange, sourceLanguage, targetLanguage, disabled = false }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const canSelectDevice = supportsOutputSelection();
+
+  useEffect(() => {
+    if (!canSelectDevice) return;
+    const refresh = () => listSpeakers().then(setDevices).catch(e => console.error('Failed to list speakers', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [canSelectDevice]);
+
+  const languageOf = (listener: Listener) => listener === 'source' ? sourceLanguage : targetLanguage;
+
+  const deviceSelect = (value: string, onSelect: (deviceId: string) => void) => (
+    <select
+      value={devices.some(d => d.deviceId === value) ? value : ''}
+      onChange={(e) => onSelect(e.target.value)}
+      disabled={disabled}
+      className="w-full bg-slate-50 border border-slate-300 rounded-lg px-3 py-2 text-sm font-semibold focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer disabled:opacity-50"
+    >
+      <option value="">System Default</option>
+      {devices.map((device, i) => (
+        <option key={device.deviceId} value={device.deviceId}>{device.label || `Speaker ${i + 1}`}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block">Audio Output</label>
+      <div className="grid grid-cols-3 gap-2">
+        {OUTPUT_ROUTING_MODES.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => onChange({ ...settings, mode: mode.id })}
+            disabled={disabled || (mode.id === 'per-device' && !canSelectDevice)}
+            className={`px-3 py-2 rounded-xl text-xs flex flex-col items-center transition-all disabled:opacity-50 ${
+              settings.mode === mode.id
+              ? 'bg-indigo-600 text-white shadow-md'
+              : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            <i className={`${mode.icon} mb-1`}></i>
+            <span className="font-bold">{mode.label}</span>
+            <span className={`text-[9px] opacity-70 ${settings.mode === mode.id ? 'text-indigo-100' : 'text-slate-400'}`}>{mode.desc}</span>
+          </button>
+        ))}
+      </div>
+
+      {canSelectDevice && settings.mode !== 'per-device' && deviceSelect(settings.deviceId, deviceId => onChange({ ...settings, deviceId }))}
+
+      {settings.mode === 'per-device' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {(['source', 'target'] as const).map(listener => (
+            <div key={listener} className="space-y-1">
+              <span className="text-[10px] font-bold text-slate-500">{languageOf(listener)} speaker hears</span>
+              {deviceSelect(settings.listenerDeviceIds[listener], deviceId => onChange({
+                ...settings,
+                listenerDeviceIds: { ...settings.listenerDeviceIds, [listener]: deviceId },
+              }))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {settings.mode === 'stereo-split' && (
+        <div className="grid grid-cols-2 gap-2 text-[11px] font-semibold text-slate-600">
+          {(['source', 'target'] as const).map(listener => (
+            <div key={listener} className="bg-slate-50 rounded-lg px-3 py-2 border border-slate-100">
+              <span className="text-indigo-600 font-bold">{STEREO_CHANNEL[listener] === 0 ? 'Left' : 'Right'}</span>
+              {' · '}{languageOf(listener)} speaker
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!canSelectDevice && (
+        <p className="text-[10px] text-slate-400 italic">This browser always plays through the system output; stereo split still works with a stereo headset or splitter.</p>
+      )}
+      {settings.mode !== 'single' && (
+        <p className="text-[10px] text-slate-400 italic">Each translation plays only for the person who speaks its language. Routing is fixed when a session starts.</p>
+      )}
+    </div>
+  );
+};
+
+export default OutputSettingsPanel;
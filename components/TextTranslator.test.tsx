@@ -0,0 +1,162 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import TextTranslator from './TextTranslator';
+import { createMockProvider } from '../services/mockProvider';
+import type { StretchPlayer } from '../utils/timeStretch';
+
+// Playback runs through a fake player that finishes each sentence as soon as it is flushed.
+const playback = vi.hoisted(() => ({ enqueued: [] as Float32Array[] }));
+
+vi.mock('../utils/timeStretch', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/timeStretch')>(),
+  createStretchPlayer: async (): Promise<StretchPlayer> => {
+    const player: StretchPlayer = {
+      enqueue: samples => { playback.enqueued.push(samples); },
+      flush: () => { setTimeout(() => player.onIdle?.(), 0); },
+      setRate: () => {},
+      clear: () => {},
+      onIdle: null,
+      disconnect: () => {},
+    };
+    return player;
+  },
+}));
+
+vi.mock('../utils/ttsCache', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/ttsCache')>(),
+  getCachedSpeech: async () => undefined,
+  cacheSpeech: async () => {},
+}));
+
+class FakeAudioContext {
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+  resume = async () => {};
+  close = async () => {};
+}
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLDivElement;
+let root: Root;
+
+async function render(element: React.ReactElement) {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  await act(async () => root.render(element));
+}
+
+// Polls (on real timers, so the mock provider's latency elapses) until the condition holds.
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out; the page reads: ${container.textContent}`);
+    await act(() => new Promise(resolve => setTimeout(resolve, 20)));
+  }
+}
+
+async function typeSource(text: string) {
+  const textarea = container.querySelector('textarea')!;
+  const setValue = Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, 'value')!.set!;
+  await act(async () => {
+    setValue.call(textarea, text);
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+  });
+}
+
+const buttonWith = (text: string) =>
+  Array.from(container.querySelectorAll('button')).find(b => b.textContent?.trim() === text) as HTMLButtonElement;
+const buttonTitled = (title: string) => container.querySelector<HTMLButtonElement>(`button[title="${title}"]`);
+const click = (button: HTMLElement) => act(async () => button.click());
+
+beforeEach(() => {
+  localStorage.clear();
+  playback.enqueued = [];
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('TextTranslator', () => {
+  describe('translating', () => {
+    it('streams the translation with the pair glossary and saves it to history', async () => {
+      localStorage.setItem('lingua_glossary', JSON.stringify([
+        { id: '1', sourceLanguage: 'Japanese', targetLanguage: 'English', sourceTerm: 'neko', targetTerm: 'cat' },
+      ]));
+      const provider = createMockProvider();
+      const translateStream = vi.spyOn(provider, 'translateStream');
+      await render(<TextTranslator provider={provider} />);
+
+      await typeSource('I have a neko.');
+      await click(buttonWith('Translate'));
+      await waitFor(() => buttonTitled('Listen to Translation') !== null);
+
+      expect(translateStream).toHaveBeenCalledOnce();
+      expect(translateStream.mock.calls[0][0]).toMatchObject({ text: 'I have a neko.', sourceLanguage: 'Japanese', targetLanguage: 'English' });
+      expect(container.textContent).toContain('[English] I have a cat.');
+      expect(JSON.parse(localStorage.getItem('lingua_history')!)).toEqual([
+        expect.objectContaining({ sourceText: 'I have a neko.', translatedText: '[English] I have a cat.' }),
+      ]);
+    });
+
+    it('shows a classified error when the service rejects the request', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const provider = createMockProvider();
+      vi.spyOn(provider, 'translateStream').mockImplementation(async function* () {
+        throw new Error('API key not valid');
+      });
+      await render(<TextTranslator provider={provider} />);
+
+      await typeSource('Hello.');
+      await click(buttonWith('Translate'));
+      await waitFor(() => container.textContent!.includes('Invalid API key'));
+      expect(buttonWith('Translate').disabled).toBe(false);
+    });
+  });
+
+  describe('speaking', () => {
+    it('reads the translation aloud sentence by sentence and finishes', async () => {
+      const provider = createMockProvider();
+      const synthesizeSpeech = vi.spyOn(provider, 'synthesizeSpeech');
+      await render(<TextTranslator provider={provider} />);
+
+      await typeSource('Good morning. See you later.');
+      await click(buttonWith('Translate'));
+      await waitFor(() => buttonTitled('Listen to Translation') !== null);
+
+      await click(buttonTitled('Listen to Translation')!);
+      expect(buttonTitled('Stop Pronunciation')).not.toBeNull();
+      await waitFor(() => buttonTitled('Listen to Translation') !== null);
+
+      expect(synthesizeSpeech.mock.calls.map(([key]) => key)).toEqual([
+        { text: '[English] Good morning.', language: 'English', voice: 'Zephyr' },
+        { text: 'See you later.', language: 'English', voice: 'Zephyr' },
+      ]);
+      expect(playback.enqueued).toHaveLength(2);
+    });
+
+    it('stops reading when pressed again', async () => {
+      const provider = createMockProvider();
+      await render(<TextTranslator provider={provider} />);
+
+      await typeSource('Good morning. See you later.');
+      await click(buttonWith('Translate'));
+      await waitFor(() => buttonTitled('Listen to Translation') !== null);
+
+      await click(buttonTitled('Listen to Translation')!);
+      await click(buttonTitled('Stop Pronunciation')!);
+      expect(buttonTitled('Listen to Translation')).not.toBeNull();
+      await act(() => new Promise(resolve => setTimeout(resolve, 400)));
+      expect(playback.enqueued).toHaveLength(0);
+    });
+  });
+});
@@ -1,9 +1,33 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { Language, TranslationState, HistoryItem, ALL_LANGUAGES } from '../types';
-import { decode, decodeAudioData, createBlob } from '../utils/audioUtils';
-import { parseApiError } from '../utils/errorUtils';
+import { Language, TranslationState, HistoryItem, GlossaryEntry, TranslationMemoryMatch, BatchJob, BatchSentence, BatchSentenceStatus } from '../types';
+import { ALL_LANGUAGES, getLanguageInfo, splitSentences, languageTextProps } from '../languages';
+import { decode, createBlob, pcmToFloat32, encodeWav, concatPcm } from '../utils/audioUtils';
+import { SpeechQueue, createSpeechQueue } from '../utils/speechQueue';
+import { SpeechKey, TTS_SAMPLE_RATE, getCachedSpeech, cacheSpeech } from '../utils/ttsCache';
+import { StretchPlayer, createStretchPlayer } from '../utils/timeStretch';
+import { startAudioCapture, AudioCapture, CHUNK_DURATIONS_MS, DEFAULT_CHUNK_MS } from '../utils/audioCapture';
+import { MicrophoneSettings, loadMicrophoneSettings, saveMicrophoneSettings, openMicrophone, watchInputDevices } from '../utils/microphoneSettings';
+import { ClassifiedError, classifyError, withRetry } from '../utils/errorUtils';
+import { loadGlossary, saveGlossary, getGlossaryForPair, findGlossaryViolations, splitByViolations } from '../utils/glossaryUtils';
+import {
+  createBatchJob, loadBatchJob, saveBatchJob, countBatchSentences, batchTranslations, isTranslated, requeueFailed, SENTENCE_STATUS_STYLES,
+} from '../utils/batchJob';
+import {
+  BATCH_CONCURRENCY_OPTIONS, DEFAULT_BATCH_CONCURRENCY, REQUESTS_PER_MINUTE_RANGE, DEFAULT_REQUESTS_PER_MINUTE,
+  createRateLimiter, estimateRemainingMs, formatDuration,
+} from '../utils/batchQueue';
+import { lookupTranslationMemory, lookupSegments, rememberTranslation, touchTranslationMemory, getTranslationMemorySize, clearTranslationMemory } from '../utils/translationMemory';
+import {
+  ParsedDocument, SUPPORTED_DOCUMENT_EXTENSIONS, parseDocument, getDocumentSegments, splitSegmentsIntoSentences,
+  joinSentencesIntoSegments, renderDocumentText, buildTranslatedDocument, translatedFileName, downloadBlob,
+} from '../utils/documentUtils';
+import { SubtitleFormat, SubtitleLimits, applySubtitleTranslations, getCueContext, wrapSubtitleText } from '../utils/subtitleUtils';
+import GlossaryManager from './GlossaryManager';
+import ErrorActions from './ErrorActions';
+import AlignedSentenceView from './AlignedSentenceView';
+import MicrophoneSettingsPanel from './MicrophoneSettingsPanel';
+import { TranslationProvider, TranslateRequest, LiveSession, getTranslationProvider } from '../services/translationProvider';
 
 const SAMPLE_RATES = [
   { value: 16000, label: '16kHz (Standard)' },
@@ -12,7 +36,10 @@ const SAMPLE_RATES = [
   { value: 48000, label: '48kHz (Pro)' },
 ];
 
+const AUTO_VOICE = 'auto';
+
 const AVAILABLE_VOICES = [
+  { id: AUTO_VOICE, label: 'Auto', desc: 'Language default' },
   { id: 'Zephyr', label: 'Zephyr', desc: 'Balanced & Natural' },
   { id: 'Puck', label: 'Puck', desc: 'Bright & Energetic' },
   { id: 'Charon', label: 'Charon', desc: 'Deep & Authoritative' },
@@ -20,7 +47,22 @@ const AVAILABLE_VOICES = [
   { id: 'Fenrir', label: 'Fenrir', desc: 'Warm & Solid' },
 ];
 
-const TextTranslator: React.FC = () => {
+// Which handler the error banner's retry button re-runs.
+type RetryAction = 'translate' | 'guide' | 'speak' | 'listen' | 'batch';
+
+// Errors that would fail every remaining sentence the same way, so the batch stops instead of carrying on.
+const BATCH_FATAL_ERRORS = ['auth', 'permission', 'quota'];
+
+const ETA_WINDOW = 20; // Recent completions the batch ETA is based on
+
+const joinTranslations = (translations: Array<string | undefined>) =>
+  translations.filter((t): t is string => t !== undefined).join(' ').trim();
+
+interface TextTranslatorProps {
+  provider?: TranslationProvider;
+}
+
+const TextTranslator: React.FC<TextTranslatorProps> = ({ provider = getTranslationProvider() }) => {
   const [state, setState] = useState<TranslationState>({
     sourceText: '',
     translatedText: '',
@@ -31,6 +73,7 @@ const TextTranslator: React.FC = () => {
     pronunciationGuide: '',
   });
 
+  const [errorDetail, setErrorDetail] = useState<{ error: ClassifiedError; occurredAt: number; retry?: RetryAction } | null>(null);
   const [isListening, setIsListening] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [showHistory, setShowHistory] = useState(false);
@@ -40,6 +83,11 @@ const TextTranslator: React.FC = () => {
     const saved = localStorage.getItem('lingua_voice_sample_rate');
     return saved ? parseInt(saved, 10) : 16000;
   });
+  const [microphoneSettings, setMicrophoneSettings] = useState<MicrophoneSettings>(() => loadMicrophoneSettings());
+  const [chunkMs, setChunkMs] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('lingua_capture_chunk_ms'));
+    return CHUNK_DURATIONS_MS.includes(saved) ? saved : DEFAULT_CHUNK_MS;
+  });
   
   const [speechRate, setSpeechRate] = useState<number>(() => {
     const saved = localStorage.getItem('lingua_speech_rate');
@@ -55,26 +103,67 @@ const TextTranslator: React.FC = () => {
     return saved === 'true';
   });
 
+  const [isMemoryEnabled, setIsMemoryEnabled] = useState<boolean>(() => {
+    return localStorage.getItem('lingua_use_memory') !== 'false';
+  });
+  const [memorySize, setMemorySize] = useState(() => getTranslationMemorySize());
+  const [memorySuggestions, setMemorySuggestions] = useState<TranslationMemoryMatch[]>([]);
+  const [isFromMemory, setIsFromMemory] = useState(false);
+
   const [isVoicePanelOpen, setIsVoicePanelOpen] = useState(false);
   const [isAutoDetect, setIsAutoDetect] = useState(false);
   const [isDetecting, setIsDetecting] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isSpeechPaused, setIsSpeechPaused] = useState(false);
+  // The text being read aloud, split into the sentences that are synthesized and played one by one.
+  const [readAloud, setReadAloud] = useState<{ text: string; sentences: string[]; index: number } | null>(null);
+  const [isPreparingDownload, setIsPreparingDownload] = useState(false);
   const [isGeneratingGuide, setIsGeneratingGuide] = useState(false);
   const [showGuide, setShowGuide] = useState(false);
 
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(() => loadGlossary());
+  const [showGlossary, setShowGlossary] = useState(false);
+
   const [isBatchMode, setIsBatchMode] = useState(false);
-  const [batchProgress, setBatchProgress] = useState({ current: 0, total: 0 });
+  const [isDocumentMode, setIsDocumentMode] = useState(false);
+  const [activeDocument, setActiveDocument] = useState<ParsedDocument | null>(null);
+  const [documentTranslations, setDocumentTranslations] = useState<Array<string | undefined>>([]);
+  const [isParsingDocument, setIsParsingDocument] = useState(false);
+  const [subtitleLimits, setSubtitleLimits] = useState<SubtitleLimits>(() => getLanguageInfo(state.targetLanguage).subtitle);
+  const [subtitleExportFormat, setSubtitleExportFormat] = useState<SubtitleFormat>('srt');
+  const [batchProgress, setBatchProgress] = useState<{ current: number; total: number; etaMs?: number | null }>({ current: 0, total: 0 });
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('lingua_batch_concurrency'));
+    return BATCH_CONCURRENCY_OPTIONS.includes(saved) ? saved : DEFAULT_BATCH_CONCURRENCY;
+  });
+  const [requestsPerMinute, setRequestsPerMinute] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('lingua_batch_rpm'));
+    return saved >= REQUESTS_PER_MINUTE_RANGE.min ? saved : DEFAULT_REQUESTS_PER_MINUTE;
+  });
+  const [batchJob, setBatchJob] = useState<BatchJob | null>(() => loadBatchJob());
+  const [retranslatingSentence, setRetranslatingSentence] = useState<number | null>(null);
+  const [speakingSentence, setSpeakingSentence] = useState<number | null>(null);
   const [isBatchActive, setIsBatchActive] = useState(false);
   const [isBatchPaused, setIsBatchPaused] = useState(false);
   
   const audioCtxRef = useRef<AudioContext | null>(null);
   const ttsAudioCtxRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const stopDeviceWatchRef = useRef<(() => void) | null>(null);
+  const microphoneSettingsRef = useRef(microphoneSettings);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const detectionTimerRef = useRef<number | null>(null);
-  const isBatchCancelledRef = useRef(false);
+  const listeningRateRef = useRef<number | null>(null); // Sample rate of the open dictation session, null when not listening
+  const batchJobRef = useRef(batchJob);
+  const batchRunRef = useRef(0); // Bumped by every run and cancel; a run that sees a newer value stops
   const isBatchPausedRef = useRef(false);
-  const ttsSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Plays speech at the chosen rate without raising or lowering the voice.
+  const ttsPlayerRef = useRef<StretchPlayer | null>(null);
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
+  const translateAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const savedHistory = localStorage.getItem('lingua_history');
@@ -91,12 +180,69 @@ const TextTranslator: React.FC = () => {
     localStorage.setItem('lingua_history', JSON.stringify(history));
   }, [history]);
 
+  useEffect(() => {
+    if (!state.error) setErrorDetail(null);
+  }, [state.error]);
+
+  useEffect(() => {
+    saveBatchJob(batchJob);
+    batchJobRef.current = batchJob;
+  }, [batchJob]);
+
+  useEffect(() => {
+    if (!isSpeaking) setSpeakingSentence(null);
+  }, [isSpeaking]);
+
+  // Bring back the input of an unfinished text batch so it can be resumed after a reload.
+  // Runs once on mount, so it reads the restored job through the ref.
+  useEffect(() => {
+    const job = batchJobRef.current;
+    if (job?.kind !== 'text' || !job.sourceText) return;
+    const { pending, failed } = countBatchSentences(job);
+    if (pending === 0 && failed === 0) return;
+    setIsBatchMode(true);
+    setState(prev => ({
+      ...prev,
+      sourceText: job.sourceText!,
+      sourceLanguage: job.sourceLanguage,
+      targetLanguage: job.targetLanguage,
+      translatedText: joinTranslations(batchTranslations(job)),
+    }));
+  }, []);
+
   useEffect(() => {
     localStorage.setItem('lingua_voice_sample_rate', voiceSampleRate.toString());
   }, [voiceSampleRate]);
 
+  useEffect(() => {
+    localStorage.setItem('lingua_capture_chunk_ms', chunkMs.toString());
+  }, [chunkMs]);
+
+  useEffect(() => {
+    localStorage.setItem('lingua_batch_concurrency', batchConcurrency.toString());
+  }, [batchConcurrency]);
+
+  useEffect(() => {
+    localStorage.setItem('lingua_batch_rpm', requestsPerMinute.toString());
+  }, [requestsPerMinute]);
+
+  useEffect(() => {
+    saveMicrophoneSettings(microphoneSettings);
+    microphoneSettingsRef.current = microphoneSettings;
+  }, [microphoneSettings]);
+
+  useEffect(() => {
+    captureRef.current?.setGain(microphoneSettings.gain);
+  }, [microphoneSettings.gain]);
+
+  useEffect(() => {
+    const rate = listeningRateRef.current;
+    if (rate !== null) switchMicrophone(rate);
+  }, [microphoneSettings.deviceId, microphoneSettings.echoCancellation, microphoneSettings.noiseSuppression, microphoneSettings.autoGainControl]);
+
   useEffect(() => {
     localStorage.setItem('lingua_speech_rate', speechRate.toString());
+    ttsPlayerRef.current?.setRate(speechRate);
   }, [speechRate]);
 
   useEffect(() => {
@@ -107,6 +253,52 @@ const TextTranslator: React.FC = () => {
     localStorage.setItem('lingua_auto_play', isAutoPlayEnabled.toString());
   }, [isAutoPlayEnabled]);
 
+  useEffect(() => {
+    localStorage.setItem('lingua_use_memory', isMemoryEnabled.toString());
+  }, [isMemoryEnabled]);
+
+  useEffect(() => {
+    saveGlossary(glossary);
+  }, [glossary]);
+
+  const pairGlossary = useMemo(
+    () => getGlossaryForPair(glossary, state.sourceLanguage, state.targetLanguage),
+    [glossary, state.sourceLanguage, state.targetLanguage]
+  );
+
+  useEffect(() => {
+    setSubtitleLimits(getLanguageInfo(state.targetLanguage).subtitle);
+  }, [state.targetLanguage]);
+
+  const subtitleOptions = activeDocument?.subtitles
+    ? { format: subtitleExportFormat, limits: subtitleLimits }
+    : undefined;
+
+  const subtitleOverflowCount = useMemo(() => {
+    if (!activeDocument?.subtitles) return 0;
+    return applySubtitleTranslations(activeDocument.subtitles, documentTranslations, subtitleLimits).overflowCount;
+  }, [activeDocument, documentTranslations, subtitleLimits]);
+
+  // The translation split at the sentences being read aloud, so the current one can be highlighted and any clicked.
+  const readAloudParts = useMemo(() => {
+    if (!readAloud || readAloud.text !== state.translatedText) return null;
+    const parts: Array<{ text: string; index?: number }> = [];
+    let cursor = 0;
+    readAloud.sentences.forEach((sentence, index) => {
+      const start = readAloud.text.indexOf(sentence, cursor);
+      if (start > cursor) parts.push({ text: readAloud.text.slice(cursor, start) });
+      parts.push({ text: sentence, index });
+      cursor = start + sentence.length;
+    });
+    if (cursor < readAloud.text.length) parts.push({ text: readAloud.text.slice(cursor) });
+    return parts;
+  }, [readAloud?.text, readAloud?.sentences, state.translatedText]);
+
+  const glossaryViolations = useMemo(() => {
+    if (state.isLoading || isStreaming) return [];
+    return findGlossaryViolations(state.sourceText, state.translatedText, pairGlossary);
+  }, [state.sourceText, state.translatedText, state.isLoading, isStreaming, pairGlossary]);
+
   const filteredHistory = useMemo(() => {
     if (!historySearchQuery.trim()) return history;
     const query = historySearchQuery.toLowerCase();
@@ -129,18 +321,8 @@ const TextTranslator: React.FC = () => {
     detectionTimerRef.current = window.setTimeout(async () => {
       setIsDetecting(true);
       try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: `Identify the language of the following text. Respond ONLY with exactly one word from this list: ${ALL_LANGUAGES.join(', ')}. If you are uncertain, respond with the most likely one. \n\nText: ${state.sourceText.substring(0, 200)}`,
-          config: {
-            temperature: 0,
-            topP: 1,
-          }
-        });
-
-        const detected = response.text?.trim() as Language;
-        if (detected && ALL_LANGUAGES.includes(detected) && detected !== state.sourceLanguage) {
+        const detected = await provider.detectLanguage(state.sourceText, ALL_LANGUAGES);
+        if (detected && detected !== state.sourceLanguage) {
           setState(prev => ({ ...prev, sourceLanguage: detected }));
         }
       } catch (err) {
@@ -153,9 +335,14 @@ const TextTranslator: React.FC = () => {
     return () => {
       if (detectionTimerRef.current) window.clearTimeout(detectionTimerRef.current);
     };
-  }, [state.sourceText, isAutoDetect, state.sourceLanguage]);
+  }, [state.sourceText, isAutoDetect, state.sourceLanguage, provider]);
 
   const handleTranslate = async () => {
+    if (isDocumentMode) {
+      startDocumentTranslation();
+      return;
+    }
+
     if (!state.sourceText.trim()) return;
 
     if (isBatchMode) {
@@ -163,21 +350,60 @@ const TextTranslator: React.FC = () => {
       return;
     }
 
-    setState(prev => ({ ...prev, isLoading: true, error: null, translatedText: '', pronunciationGuide: '' }));
+    setMemorySuggestions([]);
+    setIsFromMemory(false);
+
+    if (isMemoryEnabled) {
+      // Memory is kept per sentence: the input is reused when every sentence of it is remembered.
+      const segments = splitSentences(state.sourceText, state.sourceLanguage);
+      const hits = lookupSegments(segments, state.sourceLanguage, state.targetLanguage);
+      if (hits) {
+        hits.forEach(touchTranslationMemory);
+        const reused = joinTranslations(hits.map(hit => hit.translatedText));
+        setIsFromMemory(true);
+        setShowGuide(false);
+        setState(prev => ({ ...prev, error: null, translatedText: reused, pronunciationGuide: '', isIncomplete: false }));
+        saveToHistory(state.sourceText, reused);
+        if (isAutoPlayEnabled) {
+          handleSpeak(reused);
+        }
+        return;
+      }
+      if (segments.length === 1) {
+        setMemorySuggestions(lookupTranslationMemory(state.sourceText, state.sourceLanguage, state.targetLanguage).fuzzy);
+      }
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null, translatedText: '', pronunciationGuide: '', isIncomplete: false }));
     setShowGuide(false);
+    setIsStreaming(true);
+
+    const controller = new AbortController();
+    translateAbortRef.current = controller;
+    let translated = '';
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Translate the following ${state.sourceLanguage} text into ${state.targetLanguage}. Output ONLY the translated text.\n\nText: ${state.sourceText}`,
-        config: {
-          temperature: 0.3,
-          topP: 1,
+      // A retry starts the stream over, replacing whatever arrived before the failure.
+      await withRetry(async () => {
+        translated = '';
+        const stream = provider.translateStream({
+          text: state.sourceText,
+          sourceLanguage: state.sourceLanguage,
+          targetLanguage: state.targetLanguage,
+          glossary: pairGlossary,
+        }, controller.signal);
+
+        for await (const chunk of stream) {
+          translated += chunk;
+          setState(prev => ({ ...prev, translatedText: translated }));
         }
-      });
+      }, { signal: controller.signal });
+
+      if (controller.signal.aborted) {
+        finishStoppedTranslation(translated);
+        return;
+      }
 
-      const translated = response.text || '';
       setState(prev => ({
         ...prev,
         translatedText: translated,
@@ -185,17 +411,79 @@ const TextTranslator: React.FC = () => {
       }));
 
       saveToHistory(state.sourceText, translated);
+      rememberSegments(state.sourceText, translated);
 
       if (isAutoPlayEnabled && translated) {
         handleSpeak(translated);
       }
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        finishStoppedTranslation(translated);
+        return;
+      }
       console.error(err);
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: parseApiError(err)
-      }));
+      setState(prev => ({ ...prev, isLoading: false }));
+      reportError(err, 'translate');
+    } finally {
+      translateAbortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  const reportError = (err: unknown, retry?: RetryAction, prefix = '') => {
+    const error = classifyError(err);
+    setState(prev => ({ ...prev, error: prefix + error.message }));
+    setErrorDetail({ error, occurredAt: Date.now(), retry });
+  };
+
+  const retryFailedAction = () => {
+    const action = errorDetail?.retry;
+    setState(prev => ({ ...prev, error: null }));
+    if (action === 'translate') handleTranslate();
+    else if (action === 'guide') handleGenerateGuide();
+    else if (action === 'speak') handleSpeak();
+    else if (action === 'listen') startListening();
+    else if (action === 'batch' && batchJob) resumeBatchJob(false, requeueFailed(batchJob));
+  };
+
+  const finishStoppedTranslation = (partial: string) => {
+    setState(prev => ({ ...prev, translatedText: partial, isLoading: false, isIncomplete: true }));
+    if (partial.trim()) {
+      saveToHistory(state.sourceText, partial, true);
+    }
+  };
+
+  const stopTranslation = () => {
+    translateAbortRef.current?.abort();
+  };
+
+  const remember = (source: string, translated: string, sourceLanguage = state.sourceLanguage, targetLanguage = state.targetLanguage) => {
+    if (!isMemoryEnabled) return;
+    rememberTranslation(source, translated, sourceLanguage, targetLanguage);
+    setMemorySize(getTranslationMemorySize());
+  };
+
+  // A whole translation is stored sentence by sentence when it splits into as many sentences as its
+  // source; otherwise which sentence translates which is unknown and nothing is stored.
+  const rememberSegments = (source: string, translated: string) => {
+    const sources = splitSentences(source, state.sourceLanguage);
+    const targets = splitSentences(translated, state.targetLanguage);
+    if (sources.length !== targets.length) return;
+    sources.forEach((segment, i) => remember(segment, targets[i]));
+  };
+
+  const applyMemorySuggestion = (match: TranslationMemoryMatch) => {
+    touchTranslationMemory(match.entry);
+    setState(prev => ({ ...prev, translatedText: match.entry.translatedText, pronunciationGuide: '', isIncomplete: false }));
+    setShowGuide(false);
+    setMemorySuggestions([]);
+  };
+
+  const handleClearMemory = () => {
+    if (window.confirm('Clear all saved translation memory?')) {
+      clearTranslationMemory();
+      setMemorySize(0);
+      setMemorySuggestions([]);
     }
   };
 
@@ -207,33 +495,37 @@ const TextTranslator: React.FC = () => {
     setState(prev => ({ ...prev, error: null }));
     
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      
-      let formatInstructions = 'IPA (International Phonetic Alphabet)';
-      if (state.targetLanguage === 'Chinese') formatInstructions = 'Pinyin with tone marks';
-      else if (state.targetLanguage === 'Japanese') formatInstructions = 'Romaji';
-      else if (state.targetLanguage === 'Korean') formatInstructions = 'Revised Romanization';
-      else if (state.targetLanguage === 'Urdu') formatInstructions = 'Romanized Urdu (Transliteration)';
-      else formatInstructions = 'IPA (International Phonetic Alphabet)';
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Generate a clear pronunciation guide for this ${state.targetLanguage} text: "${state.translatedText}". 
-          Use ${formatInstructions}. 
-          Output ONLY the guide text, no headers or extra explanation. If it's a long text, maintain the structure.`,
-        config: { temperature: 0.1 }
-      });
+      const guide = await withRetry(() => provider.generatePronunciationGuide({
+        text: state.translatedText,
+        language: state.targetLanguage,
+        scheme: getLanguageInfo(state.targetLanguage).romanization.scheme,
+      }));
 
-      setState(prev => ({ ...prev, pronunciationGuide: response.text || '' }));
+      setState(prev => ({ ...prev, pronunciationGuide: guide }));
     } catch (err) {
       console.error('Failed to generate pronunciation guide:', err);
-      setState(prev => ({ ...prev, error: parseApiError(err) }));
+      reportError(err, 'guide');
     } finally {
       setIsGeneratingGuide(false);
     }
   };
 
-  const handleSpeak = async (textToSpeak?: string) => {
+  // Audio for the same text, language and voice is played from the local cache instead of synthesized again.
+  const loadSpeech = async (key: SpeechKey): Promise<Int16Array> => {
+    const cached = await getCachedSpeech(key).catch(err => {
+      console.warn('Speech cache unavailable', err);
+      return undefined;
+    });
+    if (cached) return cached;
+
+    const base64Audio = await withRetry(() => provider.synthesizeSpeech(key));
+    if (!base64Audio) throw new Error("No audio data returned from the service.");
+    const pcm = new Int16Array(decode(base64Audio).buffer);
+    cacheSpeech(key, pcm).catch(err => console.warn('Failed to cache speech', err));
+    return pcm;
+  };
+
+  const handleSpeak = async (textToSpeak?: string, language = state.targetLanguage, voice = resolveVoice(language)) => {
     const text = textToSpeak || state.translatedText;
     
     if (isSpeaking) {
@@ -243,134 +535,434 @@ const TextTranslator: React.FC = () => {
 
     if (!text) return;
 
+    const sentences = splitSentences(text, language);
     setIsSpeaking(true);
+    setReadAloud({ text, sentences, index: 0 });
     setState(prev => ({ ...prev, error: null }));
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-tts',
-        contents: [{ parts: [{ text: `Please read this ${state.targetLanguage} text naturally: ${text}` }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: selectedVoice },
-            },
+      if (!ttsAudioCtxRef.current) {
+        ttsAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: TTS_SAMPLE_RATE });
+      }
+      const ctx = ttsAudioCtxRef.current;
+      if (ctx.state === 'suspended') await ctx.resume();
+      if (!ttsPlayerRef.current) {
+        ttsPlayerRef.current = await createStretchPlayer(ctx, ctx.destination, speechRate);
+      }
+
+      speechQueueRef.current = createSpeechQueue(
+        ttsPlayerRef.current,
+        sentences.length,
+        (index) => loadSpeech({ text: sentences[index].trim(), language, voice }),
+        {
+          onSentence: (index) => setReadAloud(prev => prev && { ...prev, index }),
+          onEnd: () => {
+            speechQueueRef.current = null;
+            setIsSpeaking(false);
+            setReadAloud(null);
+          },
+          onError: (err) => {
+            console.error('TTS failed:', err);
+            stopSpeaking();
+            reportError(err, 'speak');
           },
         },
-      });
+      );
+    } catch (err) {
+      console.error('TTS failed:', err);
+      stopSpeaking();
+      reportError(err, 'speak');
+    }
+  };
 
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        if (!ttsAudioCtxRef.current) {
-          ttsAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        }
-        const ctx = ttsAudioCtxRef.current;
-        if (ctx.state === 'suspended') await ctx.resume();
-
-        const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        
-        source.playbackRate.value = speechRate;
-        
-        source.connect(ctx.destination);
-        source.onended = () => {
-          setIsSpeaking(false);
-          ttsSourceRef.current = null;
-        };
-
-        ttsSourceRef.current = source;
-        source.start();
-      } else {
-        setIsSpeaking(false);
-        throw new Error("No audio data returned from the service.");
+  const downloadSpeech = async () => {
+    const text = state.translatedText;
+    if (!text) return;
+    setIsPreparingDownload(true);
+    setState(prev => ({ ...prev, error: null }));
+    try {
+      // Synthesized per sentence like playback, so the download reuses what was already played.
+      const language = state.targetLanguage;
+      const clips: Int16Array[] = [];
+      for (const sentence of splitSentences(text, language)) {
+        clips.push(await loadSpeech({ text: sentence.trim(), language, voice: resolveVoice(language) }));
       }
+      const pcm = concatPcm(clips);
+      downloadBlob(encodeWav(pcmToFloat32(pcm), TTS_SAMPLE_RATE), `translation-${getLanguageInfo(language).code}.wav`);
     } catch (err) {
-      console.error('TTS failed:', err);
-      setIsSpeaking(false);
-      setState(prev => ({ ...prev, error: parseApiError(err) }));
+      console.error('Speech download failed:', err);
+      reportError(err, undefined, 'Download failed: ');
+    } finally {
+      setIsPreparingDownload(false);
     }
   };
 
+  const speakHistoryItem = (item: HistoryItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    handleSpeak(item.translatedText, item.targetLanguage, resolveVoice(item.targetLanguage, item.voice));
+  };
+
   const stopSpeaking = () => {
-    if (ttsSourceRef.current) {
-      try {
-        ttsSourceRef.current.stop();
-      } catch (e) {}
-      ttsSourceRef.current = null;
-    }
+    speechQueueRef.current?.stop();
+    speechQueueRef.current = null;
+    // A paused context would hold back the next playback.
+    if (ttsAudioCtxRef.current?.state === 'suspended') ttsAudioCtxRef.current.resume();
+    setIsSpeechPaused(false);
     setIsSpeaking(false);
+    setReadAloud(null);
   };
 
-  const startBatchTranslation = async () => {
-    const sentences = state.sourceText.match(/[^.!?。！？\n]+[.!?。！？\n]*/g) || [state.sourceText];
-    if (sentences.length === 0) return;
+  // Pausing suspends the audio context, so playback resumes exactly where it stopped.
+  const toggleSpeechPause = async () => {
+    const ctx = ttsAudioCtxRef.current;
+    if (!ctx || !speechQueueRef.current) return;
+    if (isSpeechPaused) {
+      await ctx.resume();
+      setIsSpeechPaused(false);
+    } else {
+      await ctx.suspend();
+      setIsSpeechPaused(true);
+    }
+  };
+
+  const skipToSentence = (index: number) => {
+    if (!speechQueueRef.current) return;
+    if (isSpeechPaused) {
+      ttsAudioCtxRef.current?.resume();
+      setIsSpeechPaused(false);
+    }
+    speechQueueRef.current.skipTo(index);
+  };
+
+  // Step-by-step loop shared by batch text, document and subtitle translation. Works through the job's
+  // pending sentences (or only its failed ones), retrying each with backoff; a sentence that still fails
+  // is marked and skipped. Honors pause and cancel, and the job is persisted so it can be resumed later.
+  const runSentencePipeline = async (
+    initialJob: BatchJob,
+    onSentence: (translations: Array<string | undefined>) => void,
+    requestFor?: (index: number) => Partial<TranslateRequest>,
+    retryFailed = false,
+  ): Promise<{ job: BatchJob; completed: boolean; cancelled: boolean }> => {
+    const run = ++batchRunRef.current;
+    const isCancelled = () => run !== batchRunRef.current;
+    const { sourceLanguage, targetLanguage } = initialJob;
+    let job = initialJob;
+    const update = (index: number, patch: Partial<BatchSentence>) => {
+      const sentences = [...job.sentences];
+      sentences[index] = { ...sentences[index], ...patch };
+      job = { ...job, sentences, updatedAt: Date.now() };
+      setBatchJob(job);
+    };
 
+    setBatchJob(job);
     setIsBatchActive(true);
     setIsBatchPaused(false);
     isBatchPausedRef.current = false;
-    isBatchCancelledRef.current = false;
-    setBatchProgress({ current: 0, total: sentences.length });
-    setState(prev => ({ ...prev, translatedText: '', isLoading: true, error: null, pronunciationGuide: '' }));
-    setShowGuide(false);
-
-    let currentResult = '';
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+    setBatchProgress({ current: countBatchSentences(job).translated, total: job.sentences.length });
+    onSentence(batchTranslations(job));
+
+    // Sentences are handed out in order to a pool of workers; results land at their own index, so the
+    // text is reassembled in order whatever order the requests finish in.
+    const statusToRun: BatchSentenceStatus = retryFailed ? 'failed' : 'pending';
+    const queue = job.sentences.map((sentence, i) => sentence.status === statusToRun ? i : -1).filter(i => i >= 0);
+    const limiter = createRateLimiter(requestsPerMinute, batchConcurrency);
+    const completedAt = [Date.now()];
+    let stopped = false;
+
+    const translateSentence = async (i: number) => {
+      const source = job.sentences[i].source;
+      const request = requestFor?.(i);
+      let attempts = job.sentences[i].attempts;
+      try {
+        const memoryHit = isMemoryEnabled
+          ? lookupTranslationMemory(source, sourceLanguage, targetLanguage).exact
+          : null;
+        // A remembered subtitle cue is wrapped to the cue limits like any other; one that does not fit
+        // goes to the model, which condenses it.
+        const fitted = memoryHit && request?.subtitleLimits ? wrapSubtitleText(memoryHit.translatedText, request.subtitleLimits) : null;
+        let translation: string;
+        if (memoryHit && !fitted?.overflow) {
+          touchTranslationMemory(memoryHit);
+          translation = fitted?.text ?? memoryHit.translatedText;
+        } else {
+          translation = await withRetry(async () => {
+            if (!(await limiter.acquire(isCancelled))) throw new Error('Batch cancelled');
+            attempts++;
+            return provider.translate({
+              text: source,
+              sourceLanguage,
+              targetLanguage,
+              granularity: 'sentence',
+              glossary: pairGlossary,
+              ...request,
+            });
+          }, {
+            // A 429 slows down the whole queue, not just the request that hit it.
+            onRetry: (error, _attempt, delayMs) => {
+              if (error.kind === 'rate-limited') limiter.backOff(delayMs);
+            },
+          });
+          if (isCancelled()) return;
+          limiter.succeed();
+          remember(source, translation, sourceLanguage, targetLanguage);
+        }
+        update(i, { translation, status: attempts > 1 ? 'retried' : 'done', attempts, error: undefined });
+      } catch (err) {
+        if (isCancelled()) return;
+        console.error('Batch error at sentence', i, err);
+        const error = classifyError(err);
+        if (error.kind === 'rate-limited') limiter.backOff(error.retryAfterMs ?? 0);
+        update(i, { status: 'failed', attempts, error: error.message });
+        if (BATCH_FATAL_ERRORS.includes(error.kind) && !stopped) {
+          stopped = true;
+          reportError(err, 'batch', `Batch stopped at ${job.unit.toLowerCase()} ${i + 1}: `);
+        }
+      }
 
-    for (let i = 0; i < sentences.length; i++) {
-      if (isBatchCancelledRef.current) break;
+      completedAt.push(Date.now());
+      if (completedAt.length > ETA_WINDOW) completedAt.shift();
+      const { translated, pending, failed } = countBatchSentences(job);
+      const remaining = retryFailed ? failed : pending;
+      setBatchProgress({ current: translated, total: job.sentences.length, etaMs: estimateRemainingMs(completedAt, remaining) });
+      onSentence(batchTranslations(job));
+    };
 
-      while (isBatchPausedRef.current && !isBatchCancelledRef.current) {
-        await new Promise(r => setTimeout(r, 500));
+    const worker = async () => {
+      while (queue.length > 0 && !stopped && !isCancelled()) {
+        while (isBatchPausedRef.current && !isCancelled()) {
+          await new Promise(r => setTimeout(r, 500));
+        }
+        if (isCancelled()) return;
+        await translateSentence(queue.shift()!);
       }
-      if (isBatchCancelledRef.current) break;
+    };
+    await Promise.all(Array.from({ length: Math.min(batchConcurrency, queue.length) }, worker));
 
-      try {
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: `Translate this single sentence from ${state.sourceLanguage} to ${state.targetLanguage}: "${sentences[i].trim()}"`,
-          config: { temperature: 0.1 }
-        });
+    const cancelled = isCancelled();
+    if (!cancelled) setIsBatchActive(false);
+    const { pending, failed } = countBatchSentences(job);
+    return { job, completed: !cancelled && pending === 0 && failed === 0, cancelled };
+  };
 
-        const translatedSentence = response.text || '';
-        currentResult += translatedSentence + ' ';
-        
-        setBatchProgress({ current: i + 1, total: sentences.length });
-        setState(prev => ({ ...prev, translatedText: currentResult.trim() }));
-      } catch (err) {
-        console.error('Batch error at sentence', i, err);
-        setState(prev => ({ ...prev, error: `Batch processing failed at sentence ${i+1}: ${parseApiError(err)}` }));
-        break;
+  const startBatchTranslation = async (resumeJob?: BatchJob, retryFailed = false) => {
+    const job = resumeJob ?? createBatchJob(
+      'text', splitSentences(state.sourceText, state.sourceLanguage), state.sourceLanguage, state.targetLanguage,
+      { sourceText: state.sourceText },
+    );
+    if (job.sentences.length === 0) return;
+
+    setState(prev => ({ ...prev, translatedText: '', isLoading: true, error: null, pronunciationGuide: '' }));
+    setShowGuide(false);
+    setMemorySuggestions([]);
+    setIsFromMemory(false);
+
+    const { job: finished, completed, cancelled } = await runSentencePipeline(job, (translations) => {
+      setState(prev => ({ ...prev, translatedText: joinTranslations(translations) }));
+    }, undefined, retryFailed);
+    if (cancelled) return;
+    const currentResult = joinTranslations(batchTranslations(finished));
+
+    if (completed) {
+      saveToHistory(finished.sourceText!, currentResult);
+      if (isAutoPlayEnabled && currentResult) {
+        handleSpeak(currentResult);
       }
     }
 
-    if (!isBatchCancelledRef.current && !state.error) {
-      saveToHistory(state.sourceText, currentResult.trim());
-      if (isAutoPlayEnabled && currentResult.trim()) {
-        handleSpeak(currentResult.trim());
+    setState(prev => ({ ...prev, isLoading: false }));
+  };
+
+  const handleDocumentUpload = async (file: File) => {
+    setIsParsingDocument(true);
+    setState(prev => ({ ...prev, error: null }));
+    try {
+      const parsed = await parseDocument(file);
+      if (getDocumentSegments(parsed).length === 0) {
+        throw new Error('No translatable text was found in this file.');
       }
+      setActiveDocument(parsed);
+      setDocumentTranslations([]);
+      if (parsed.subtitles) setSubtitleExportFormat(parsed.subtitles.format);
+    } catch (err) {
+      console.error('Failed to read document:', err);
+      reportError(err);
+    } finally {
+      setIsParsingDocument(false);
     }
+  };
+
+  const clearDocument = () => {
+    setActiveDocument(null);
+    setDocumentTranslations([]);
+  };
+
+  const startSubtitleTranslation = async (resumeJob?: BatchJob, retryFailed = false) => {
+    const track = activeDocument?.subtitles;
+    if (!track) return;
+    const cueIndexes = track.cues.map((cue, i) => cue.text.trim() ? i : -1).filter(i => i >= 0);
+    if (cueIndexes.length === 0) return;
+    const cueTexts = cueIndexes.map(i => track.cues[i].text.replace(/\s*\n\s*/g, ' '));
+    const job = resumeJob && hasSameSentences(resumeJob, cueTexts) ? resumeJob : createBatchJob(
+      'subtitle', cueTexts, state.sourceLanguage, state.targetLanguage,
+      { fileName: activeDocument!.fileName, unit: 'Cue' },
+    );
+
+    setDocumentTranslations([]);
+    setState(prev => ({ ...prev, translatedText: '', isLoading: true, error: null, pronunciationGuide: '' }));
+    setShowGuide(false);
+    setMemorySuggestions([]);
+    setIsFromMemory(false);
+
+    const limits = subtitleLimits;
+    const toCueTranslations = (results: Array<string | undefined>) => {
+      const byCue: Array<string | undefined> = new Array(track.cues.length).fill(undefined);
+      results.forEach((text, i) => { byCue[cueIndexes[i]] = text; });
+      return byCue;
+    };
+
+    const { cancelled } = await runSentencePipeline(
+      job,
+      (partial) => setDocumentTranslations(toCueTranslations(partial)),
+      (i) => ({ granularity: 'subtitle', context: getCueContext(track, cueIndexes[i]), subtitleLimits: limits }),
+      retryFailed,
+    );
+    if (cancelled) return;
 
-    setIsBatchActive(false);
     setState(prev => ({ ...prev, isLoading: false }));
   };
 
+  const startDocumentTranslation = async (resumeJob?: BatchJob, retryFailed = false) => {
+    if (!activeDocument) return;
+    if (activeDocument.subtitles) {
+      startSubtitleTranslation(resumeJob, retryFailed);
+      return;
+    }
+    const segments = getDocumentSegments(activeDocument);
+    const { sentences, owners } = splitSegmentsIntoSentences(segments, state.sourceLanguage);
+    if (sentences.length === 0) return;
+    const job = resumeJob && hasSameSentences(resumeJob, sentences) ? resumeJob : createBatchJob(
+      'document', sentences, state.sourceLanguage, state.targetLanguage, { fileName: activeDocument.fileName },
+    );
+
+    setDocumentTranslations([]);
+    setState(prev => ({ ...prev, translatedText: '', isLoading: true, error: null, pronunciationGuide: '' }));
+    setShowGuide(false);
+    setMemorySuggestions([]);
+    setIsFromMemory(false);
+
+    const targetLanguage = job.targetLanguage;
+    const { cancelled } = await runSentencePipeline(job, (partial) => {
+      setDocumentTranslations(joinSentencesIntoSegments(partial, owners, segments.length, targetLanguage));
+    }, undefined, retryFailed);
+    if (cancelled) return;
+
+    setState(prev => ({ ...prev, isLoading: false }));
+  };
+
+  const downloadTranslatedDocument = () => {
+    if (!activeDocument) return;
+    try {
+      const blob = buildTranslatedDocument(activeDocument, documentTranslations, subtitleOptions);
+      downloadBlob(blob, translatedFileName(activeDocument.fileName, state.targetLanguage, subtitleOptions?.format));
+    } catch (err) {
+      console.error('Failed to build translated document:', err);
+      reportError(err);
+    }
+  };
+
+  // Changes one sentence of the job outside a batch run and refreshes the joined text translation.
+  const patchBatchSentence = (jobId: string, index: number, patch: Partial<BatchSentence>) => {
+    const job = batchJobRef.current;
+    if (!job || job.id !== jobId) return;
+    const sentences = [...job.sentences];
+    sentences[index] = { ...sentences[index], ...patch };
+    const next = { ...job, sentences, updatedAt: Date.now() };
+    batchJobRef.current = next;
+    setBatchJob(next);
+    if (next.kind === 'text') {
+      setState(prev => ({ ...prev, translatedText: joinTranslations(batchTranslations(next)), pronunciationGuide: '' }));
+    }
+  };
+
+  const retranslateSentence = async (index: number) => {
+    const job = batchJob;
+    if (!job || retranslatingSentence !== null) return;
+    const sentence = job.sentences[index];
+    let attempts = sentence.attempts;
+    setRetranslatingSentence(index);
+    setState(prev => ({ ...prev, error: null }));
+    try {
+      const translation = await withRetry(() => {
+        attempts++;
+        return provider.translate({
+          text: sentence.source,
+          sourceLanguage: job.sourceLanguage,
+          targetLanguage: job.targetLanguage,
+          granularity: 'sentence',
+          glossary: pairGlossary,
+        });
+      });
+      remember(sentence.source, translation, job.sourceLanguage, job.targetLanguage);
+      patchBatchSentence(job.id, index, { translation, status: sentence.status === 'failed' ? 'retried' : 'done', attempts, error: undefined });
+    } catch (err) {
+      console.error('Failed to translate sentence again:', err);
+      patchBatchSentence(job.id, index, { attempts });
+      reportError(err, undefined, `${job.unit} ${index + 1}: `);
+    } finally {
+      setRetranslatingSentence(null);
+    }
+  };
+
+  // Manual corrections also go to translation memory, so the next run reuses them.
+  const editSentence = (index: number, translation: string) => {
+    if (!batchJob) return;
+    const sentence = batchJob.sentences[index];
+    remember(sentence.source, translation, batchJob.sourceLanguage, batchJob.targetLanguage);
+    patchBatchSentence(batchJob.id, index, { translation, status: isTranslated(sentence) ? sentence.status : 'done', error: undefined });
+  };
+
+  const speakSentence = (index: number) => {
+    const translation = batchJob?.sentences[index].translation;
+    if (speakingSentence === index) {
+      stopSpeaking();
+      return;
+    }
+    if (!translation) return;
+    setSpeakingSentence(index);
+    handleSpeak(translation);
+  };
+
+  const hasSameSentences = (job: BatchJob, sentences: string[]) =>
+    job.sourceLanguage === state.sourceLanguage &&
+    job.targetLanguage === state.targetLanguage &&
+    job.sentences.length === sentences.length &&
+    job.sentences.every((s, i) => s.source === sentences[i]);
+
+  // Picks up the saved job: its pending sentences, or with retryFailed only the ones that failed.
+  const resumeBatchJob = (retryFailed = false, job = batchJob) => {
+    if (!job) return;
+    if (job.kind === 'text') startBatchTranslation(job, retryFailed);
+    else startDocumentTranslation(job, retryFailed);
+  };
+
   const togglePauseBatch = () => {
     const newVal = !isBatchPaused;
     setIsBatchPaused(newVal);
     isBatchPausedRef.current = newVal;
   };
 
+  // The job keeps its untranslated sentences as pending, so it can be resumed from here.
   const cancelBatch = () => {
-    isBatchCancelledRef.current = true;
+    batchRunRef.current++;
     setIsBatchActive(false);
     setIsBatchPaused(false);
     isBatchPausedRef.current = false;
     setState(prev => ({ ...prev, isLoading: false }));
   };
 
-  const saveToHistory = (source: string, translated: string) => {
+  const resolveVoice = (language: Language, voice = selectedVoice) =>
+    voice === AUTO_VOICE ? getLanguageInfo(language).defaultVoice : voice;
+
+  const saveToHistory = (source: string, translated: string, isIncomplete = false) => {
     const newItem: HistoryItem = {
       id: crypto.randomUUID(),
       sourceText: source,
@@ -380,6 +972,7 @@ const TextTranslator: React.FC = () => {
       timestamp: Date.now(),
       voice: selectedVoice,
       speechRate: speechRate,
+      ...(isIncomplete ? { isIncomplete } : {}),
     };
     setHistory(prev => [newItem, ...prev].slice(0, 50));
   };
@@ -393,9 +986,65 @@ const TextTranslator: React.FC = () => {
       sourceText: prev.translatedText,
       translatedText: prev.sourceText,
       pronunciationGuide: '',
+      isIncomplete: false,
       error: null
     }));
     setShowGuide(false);
+    setMemorySuggestions([]);
+    setIsFromMemory(false);
+  };
+
+  // Streams dictation audio from the capture worklet into the transcription session.
+  const beginCapture = (stream: MediaStream, sessionPromise: Promise<LiveSession>, rate: number) => {
+    const captureCtx = audioCtxRef.current!;
+    startAudioCapture(captureCtx, stream, {
+      sampleRate: rate,
+      chunkMs,
+      gain: microphoneSettingsRef.current.gain,
+      onChunk: (pcm) => {
+        const pcmBlob = createBlob(pcm, rate);
+        sessionPromise.then((session) => {
+          session.sendAudio(pcmBlob);
+        });
+      }
+    }).then(capture => {
+      // Listening may have stopped while the worklet module was loading.
+      if (audioCtxRef.current !== captureCtx) {
+        capture.stop();
+        return;
+      }
+      captureRef.current = capture;
+      stopDeviceWatchRef.current?.();
+      stopDeviceWatchRef.current = watchInputDevices(stream, microphoneSettingsRef.current.deviceId, () => switchMicrophone(rate));
+    }).catch(err => {
+      if (audioCtxRef.current !== captureCtx) return;
+      console.error('Failed to start audio capture:', err);
+      reportError(err, 'listen');
+      stopListening();
+    });
+  };
+
+  // Re-opens the microphone with the current settings (or after a device change) while dictation continues.
+  const switchMicrophone = async (rate: number) => {
+    const sessionPromise = sessionPromiseRef.current;
+    const ctx = audioCtxRef.current;
+    if (!sessionPromise || !ctx) return;
+
+    try {
+      const stream = await openMicrophone(microphoneSettingsRef.current);
+      if (audioCtxRef.current !== ctx) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      captureRef.current?.stop();
+      captureRef.current = null;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = stream;
+      beginCapture(stream, sessionPromise, rate);
+    } catch (err) {
+      console.error('Failed to switch microphone:', err);
+      reportError(err);
+    }
   };
 
   const startListening = async () => {
@@ -406,40 +1055,25 @@ const TextTranslator: React.FC = () => {
 
     setState(prev => ({ ...prev, error: null }));
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await openMicrophone(microphoneSettings);
       streamRef.current = stream;
 
       const rate = voiceSampleRate;
-      audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: rate });
+      // The context runs at the device's native rate; capture resamples to the chosen rate.
+      audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          systemInstruction: `You are a transcription assistant. The user is speaking ${state.sourceLanguage}. Transcribe their speech accurately. Do not respond with audio.`,
-        },
+      const sessionPromise = provider.connectLive({
+        mode: 'transcribe',
+        sourceLanguage: state.sourceLanguage,
         callbacks: {
           onopen: () => {
             setIsListening(true);
-            const source = audioCtxRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = audioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData, rate);
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioCtxRef.current!.destination);
+            listeningRateRef.current = rate;
+            beginCapture(stream, sessionPromise, rate);
           },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.inputTranscription) {
-              const text = message.serverContent.inputTranscription.text;
+          onmessage: (event) => {
+            if (event.inputTranscription) {
+              const text = event.inputTranscription;
               setState(prev => ({
                 ...prev,
                 sourceText: prev.sourceText + text
@@ -448,7 +1082,7 @@ const TextTranslator: React.FC = () => {
           },
           onerror: (e) => {
             console.error('Transcription error:', e);
-            setState(prev => ({ ...prev, error: `Transcription failed: ${parseApiError(e)}` }));
+            reportError(e, 'listen', 'Transcription failed: ');
             stopListening();
           },
           onclose: () => {
@@ -460,13 +1094,18 @@ const TextTranslator: React.FC = () => {
       sessionPromiseRef.current = sessionPromise;
     } catch (err) {
       console.error('Failed to start transcription:', err);
-      setState(prev => ({ ...prev, error: parseApiError(err) }));
+      reportError(err, 'listen');
       stopListening();
     }
   };
 
   const stopListening = () => {
     setIsListening(false);
+    listeningRateRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    stopDeviceWatchRef.current?.();
+    stopDeviceWatchRef.current = null;
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -491,6 +1130,7 @@ const TextTranslator: React.FC = () => {
       isLoading: false,
       error: null,
       pronunciationGuide: '',
+      isIncomplete: item.isIncomplete,
     });
 
     if (item.voice) {
@@ -501,6 +1141,8 @@ const TextTranslator: React.FC = () => {
     }
 
     setShowGuide(false);
+    setMemorySuggestions([]);
+    setIsFromMemory(false);
     setShowHistory(false);
     setHistorySearchQuery('');
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -519,6 +1161,7 @@ const TextTranslator: React.FC = () => {
 
   useEffect(() => {
     return () => {
+      translateAbortRef.current?.abort();
       stopListening();
       stopSpeaking();
       if (detectionTimerRef.current) window.clearTimeout(detectionTimerRef.current);
@@ -530,6 +1173,33 @@ const TextTranslator: React.FC = () => {
     ? Math.round((batchProgress.current / batchProgress.total) * 100) 
     : 0;
 
+  // The saved job belongs to the input on screen: same text or file and the same language pair.
+  const jobMatchesInput = !!batchJob
+    && batchJob.sourceLanguage === state.sourceLanguage
+    && batchJob.targetLanguage === state.targetLanguage
+    && (batchJob.kind === 'text'
+      ? !isDocumentMode && isBatchMode && batchJob.sourceText === state.sourceText
+      : isDocumentMode && activeDocument?.fileName === batchJob.fileName);
+
+  // A stopped job is offered for resuming only while its input is still on screen.
+  const resumableJob = (() => {
+    if (!batchJob || !jobMatchesInput || isBatchActive) return null;
+    const counts = countBatchSentences(batchJob);
+    return counts.pending > 0 || counts.failed > 0 ? { job: batchJob, counts } : null;
+  })();
+
+  const renderSentenceStatuses = (job: BatchJob) => (
+    <div className="flex flex-wrap gap-0.5">
+      {job.sentences.map((sentence, i) => (
+        <span
+          key={i}
+          title={`${job.unit} ${i + 1}: ${SENTENCE_STATUS_STYLES[sentence.status].label}${sentence.error ? ` (${sentence.error})` : ''}`}
+          className={`w-2 h-2 rounded-sm ${SENTENCE_STATUS_STYLES[sentence.status].className}`}
+        ></span>
+      ))}
+    </div>
+  );
+
   return (
     <div className="space-y-6 relative">
       <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-slate-200">
@@ -545,7 +1215,7 @@ const TextTranslator: React.FC = () => {
                 className={`bg-white border border-slate-300 rounded-l-lg px-3 py-2 text-sm font-medium focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer hover:border-indigo-300 transition-colors ${isAutoDetect ? 'border-indigo-500 bg-indigo-50/30' : ''}`}
               >
                 {ALL_LANGUAGES.map(lang => (
-                  <option key={`source-${lang}`} value={lang}>{lang}</option>
+                  <option key={`source-${lang}`} value={lang}>{lang} · {getLanguageInfo(lang).nativeName}</option>
                 ))}
               </select>
               <button
@@ -580,7 +1250,7 @@ const TextTranslator: React.FC = () => {
               className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-sm font-medium focus:ring-2 focus:ring-indigo-500 outline-none cursor-pointer hover:border-indigo-300 transition-colors"
             >
               {ALL_LANGUAGES.map(lang => (
-                <option key={`target-${lang}`} value={lang}>{lang}</option>
+                <option key={`target-${lang}`} value={lang}>{lang} · {getLanguageInfo(lang).nativeName}</option>
               ))}
             </select>
           </div>
@@ -596,6 +1266,18 @@ const TextTranslator: React.FC = () => {
               <i className="fa-solid fa-list-ol mr-2"></i>
               Step-by-Step
             </button>
+
+            <button
+              onClick={() => setIsDocumentMode(!isDocumentMode)}
+              disabled={isBatchActive}
+              className={`px-3 py-2 rounded-lg text-xs font-bold transition-all border disabled:opacity-50 ${
+                isDocumentMode ? 'bg-amber-50 text-amber-600 border-amber-200' : 'bg-slate-100 text-slate-500 border-transparent hover:bg-slate-200'
+              }`}
+              title="Translate a .txt, .md, .srt or .docx file"
+            >
+              <i className="fa-solid fa-file-lines mr-2"></i>
+              Document
+            </button>
             
             <button
               onClick={() => setIsVoicePanelOpen(!isVoicePanelOpen)}
@@ -607,6 +1289,21 @@ const TextTranslator: React.FC = () => {
               <i className="fa-solid fa-gear"></i>
             </button>
 
+            <button
+              onClick={() => setShowGlossary(true)}
+              className={`w-10 h-10 rounded-lg flex items-center justify-center transition-all relative ${
+                showGlossary ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+              }`}
+              title="Glossary"
+            >
+              <i className="fa-solid fa-book"></i>
+              {pairGlossary.length > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 bg-indigo-600 text-white text-[9px] font-bold rounded-full flex items-center justify-center">
+                  {pairGlossary.length}
+                </span>
+              )}
+            </button>
+
             <button
               onClick={() => setShowHistory(!showHistory)}
               className={`w-10 h-10 rounded-lg flex items-center justify-center transition-all ${
@@ -617,18 +1314,29 @@ const TextTranslator: React.FC = () => {
               <i className="fa-solid fa-clock-rotate-left"></i>
             </button>
             
-            <button 
-              onClick={handleTranslate}
-              disabled={state.isLoading || !state.sourceText.trim() || isBatchActive}
-              className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-6 py-2 rounded-lg font-bold shadow-md transition-all flex items-center justify-center min-w-[140px]"
-            >
-              {state.isLoading && !isBatchActive ? (
-                <i className="fa-solid fa-circle-notch fa-spin mr-2"></i>
-              ) : (
-                <i className="fa-solid fa-wand-magic-sparkle mr-2"></i>
-              )}
-              Translate
-            </button>
+            {isStreaming ? (
+              <button 
+                onClick={stopTranslation}
+                className="bg-red-500 hover:bg-red-600 text-white px-6 py-2 rounded-lg font-bold shadow-md transition-all flex items-center justify-center min-w-[140px]"
+                title="Stop and keep the partial translation"
+              >
+                <i className="fa-solid fa-stop mr-2"></i>
+                Stop
+              </button>
+            ) : (
+              <button 
+                onClick={handleTranslate}
+                disabled={state.isLoading || isBatchActive || (isDocumentMode ? !activeDocument : !state.sourceText.trim())}
+                className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-6 py-2 rounded-lg font-bold shadow-md transition-all flex items-center justify-center min-w-[140px]"
+              >
+                {state.isLoading && !isBatchActive ? (
+                  <i className="fa-solid fa-circle-notch fa-spin mr-2"></i>
+                ) : (
+                  <i className="fa-solid fa-wand-magic-sparkle mr-2"></i>
+                )}
+                Translate
+              </button>
+            )}
           </div>
         </div>
 
@@ -712,6 +1420,72 @@ const TextTranslator: React.FC = () => {
                         <div className={`dot absolute left-1 top-1 bg-white w-3 h-3 rounded-full transition-transform ${isAutoPlayEnabled ? 'translate-x-3' : ''}`}></div>
                       </div>
                     </label>
+                    <label className="mt-2 flex items-center justify-between p-3 bg-slate-50 rounded-xl border border-slate-100 cursor-pointer hover:bg-slate-100 transition-colors">
+                      <div className="flex items-center space-x-3">
+                        <i className="fa-solid fa-database text-indigo-500"></i>
+                        <span className="text-xs font-semibold text-slate-700">Translation Memory</span>
+                      </div>
+                      <div className="relative">
+                        <input 
+                          type="checkbox" 
+                          className="sr-only" 
+                          checked={isMemoryEnabled} 
+                          onChange={() => setIsMemoryEnabled(!isMemoryEnabled)}
+                        />
+                        <div className={`block w-8 h-5 rounded-full transition-colors ${isMemoryEnabled ? 'bg-indigo-600' : 'bg-slate-300'}`}></div>
+                        <div className={`dot absolute left-1 top-1 bg-white w-3 h-3 rounded-full transition-transform ${isMemoryEnabled ? 'translate-x-3' : ''}`}></div>
+                      </div>
+                    </label>
+                    <div className="mt-2 flex items-center justify-between px-3 text-[10px] text-slate-400 font-bold">
+                      <span>{memorySize} saved segments</span>
+                      {memorySize > 0 && (
+                        <button onClick={handleClearMemory} className="hover:text-red-500 transition-colors">
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-3">Batch Translation</p>
+                    <div className="bg-slate-50 p-4 rounded-2xl border border-slate-100 space-y-4">
+                      <div>
+                        <p className="text-xs font-semibold text-slate-700 mb-2">Parallel Requests</p>
+                        <div className="grid grid-cols-4 gap-1.5">
+                          {BATCH_CONCURRENCY_OPTIONS.map((n) => (
+                            <button
+                              key={n}
+                              onClick={() => setBatchConcurrency(n)}
+                              disabled={isBatchActive}
+                              className={`px-2 py-1.5 rounded-lg text-xs font-medium transition-all disabled:opacity-50 ${
+                                batchConcurrency === n
+                                ? 'bg-indigo-50 text-indigo-700 border-indigo-200 border shadow-sm'
+                                : 'bg-white text-slate-500 border-slate-200 border hover:bg-slate-50'
+                              }`}
+                            >
+                              {n}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-xs font-semibold text-slate-700">Rate Limit</span>
+                          <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded">{requestsPerMinute}/min</span>
+                        </div>
+                        <input
+                          type="range"
+                          min={REQUESTS_PER_MINUTE_RANGE.min}
+                          max={REQUESTS_PER_MINUTE_RANGE.max}
+                          step="5"
+                          value={requestsPerMinute}
+                          onChange={(e) => setRequestsPerMinute(parseInt(e.target.value, 10))}
+                          disabled={isBatchActive}
+                          className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
+                        />
+                      </div>
+                      <p className="text-[10px] text-slate-400 italic">Requests slow down automatically when the service reports a rate limit.</p>
+                    </div>
                   </div>
                 </div>
 
@@ -733,6 +1507,30 @@ const TextTranslator: React.FC = () => {
                       </button>
                     ))}
                   </div>
+                  <p className="text-[10px] text-slate-400 italic">Microphone audio is resampled from your device's native rate, so any setting works with any hardware.</p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider pt-2">Audio Chunk Size</p>
+                  <div className="grid grid-cols-4 gap-1.5">
+                    {CHUNK_DURATIONS_MS.map((ms) => (
+                      <button
+                        key={ms}
+                        onClick={() => setChunkMs(ms)}
+                        className={`px-2 py-2 rounded-xl text-xs font-medium transition-all ${
+                          chunkMs === ms 
+                          ? 'bg-indigo-50 text-indigo-700 border-indigo-200 border shadow-sm' 
+                          : 'bg-white text-slate-500 border-slate-200 border hover:bg-slate-50'
+                        }`}
+                      >
+                        {ms} ms
+                      </button>
+                    ))}
+                  </div>
+                  <div className="pt-3">
+                    <MicrophoneSettingsPanel
+                      settings={microphoneSettings}
+                      onChange={setMicrophoneSettings}
+                      isSessionActive={isListening}
+                    />
+                  </div>
                 </div>
               </div>
             </div>
@@ -744,7 +1542,7 @@ const TextTranslator: React.FC = () => {
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center space-x-4">
                 <div className="text-indigo-700 font-bold text-sm">
-                  {isBatchPaused ? 'Paused' : 'Translating'}: Sentence {batchProgress.current} of {batchProgress.total}
+                  {isBatchPaused ? 'Paused' : 'Translating'}: {batchJob?.unit} {batchProgress.current} of {batchProgress.total}
                 </div>
                 <div className="flex bg-indigo-100 rounded-full h-2 w-48 overflow-hidden">
                   <div 
@@ -753,6 +1551,9 @@ const TextTranslator: React.FC = () => {
                   ></div>
                 </div>
                 <div className="text-indigo-600 font-bold text-xs">{progressPercent}%</div>
+                {!isBatchPaused && batchProgress.etaMs != null && (
+                  <div className="text-indigo-500 text-xs font-semibold">About {formatDuration(batchProgress.etaMs)} left</div>
+                )}
               </div>
               <div className="flex items-center space-x-2">
                 <button 
@@ -771,6 +1572,48 @@ const TextTranslator: React.FC = () => {
                 </button>
               </div>
             </div>
+            {batchJob && renderSentenceStatuses(batchJob)}
+          </div>
+        )}
+
+        {resumableJob && (
+          <div className="bg-amber-50 px-6 py-4 border-b border-amber-100 animate-in fade-in slide-in-from-top-2 space-y-3">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div className="text-amber-800 text-sm">
+                <span className="font-bold">Batch stopped:</span>{' '}
+                {resumableJob.counts.translated} of {resumableJob.counts.total} {resumableJob.job.unit.toLowerCase()}s translated
+                {resumableJob.counts.failed > 0 && <span className="text-red-600 font-semibold"> · {resumableJob.counts.failed} failed</span>}
+                {resumableJob.counts.pending > 0 && <span> · {resumableJob.counts.pending} not started</span>}
+              </div>
+              <div className="flex items-center space-x-2">
+                {resumableJob.counts.pending > 0 && (
+                  <button
+                    onClick={() => resumeBatchJob()}
+                    className="px-4 py-1.5 bg-white border border-amber-200 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-100 transition-colors flex items-center"
+                  >
+                    <i className="fa-solid fa-play mr-2"></i>
+                    Resume
+                  </button>
+                )}
+                {resumableJob.counts.failed > 0 && (
+                  <button
+                    onClick={() => resumeBatchJob(true)}
+                    className="px-4 py-1.5 bg-white border border-amber-200 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-100 transition-colors flex items-center"
+                  >
+                    <i className="fa-solid fa-rotate-right mr-2"></i>
+                    Retry Failed Only
+                  </button>
+                )}
+                <button
+                  onClick={() => setBatchJob(null)}
+                  className="px-4 py-1.5 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-100 transition-colors flex items-center"
+                >
+                  <i className="fa-solid fa-trash-can mr-2"></i>
+                  Discard
+                </button>
+              </div>
+            </div>
+            {renderSentenceStatuses(resumableJob.job)}
           </div>
         )}
 
@@ -802,18 +1645,119 @@ const TextTranslator: React.FC = () => {
                 </button>
               </div>
             </div>
-            <textarea
-              className="w-full h-48 md:h-64 bg-transparent resize-none focus:outline-none text-lg text-slate-700 placeholder:text-slate-300"
-              placeholder={`Enter ${state.sourceLanguage} text...`}
-              value={state.sourceText}
-              onChange={(e) => setState(prev => ({ ...prev, sourceText: e.target.value }))}
-            />
+            {isDocumentMode ? (
+              activeDocument ? (
+                <div className="h-48 md:h-64 flex flex-col">
+                  <div className="flex items-center justify-between bg-amber-50 border border-amber-100 rounded-xl px-4 py-2 mb-3">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <i className="fa-solid fa-file-lines text-amber-500"></i>
+                      <div className="min-w-0">
+                        <p className="text-sm font-bold text-slate-700 truncate">{activeDocument.fileName}</p>
+                        <p className="text-[10px] font-bold text-amber-600 uppercase">
+                          {activeDocument.format} • {getDocumentSegments(activeDocument).length} segments
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={clearDocument}
+                      disabled={isBatchActive}
+                      className="text-slate-400 hover:text-red-500 transition-colors disabled:opacity-50"
+                      title="Remove file"
+                    >
+                      <i className="fa-solid fa-xmark"></i>
+                    </button>
+                  </div>
+                  {activeDocument.subtitles && (
+                    <div className="flex items-center flex-wrap gap-3 mb-3 text-[10px] font-bold text-slate-400 uppercase">
+                      <label className="flex items-center space-x-1.5">
+                        <span>Chars/line</span>
+                        <input
+                          type="number"
+                          min={8}
+                          max={80}
+                          value={subtitleLimits.maxCharsPerLine}
+                          disabled={isBatchActive}
+                          onChange={(e) => setSubtitleLimits(prev => ({ ...prev, maxCharsPerLine: Math.max(8, parseInt(e.target.value, 10) || 8) }))}
+                          className="w-14 px-2 py-1 bg-slate-100 rounded-lg text-xs text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </label>
+                      <label className="flex items-center space-x-1.5">
+                        <span>Lines/cue</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={4}
+                          value={subtitleLimits.maxLines}
+                          disabled={isBatchActive}
+                          onChange={(e) => setSubtitleLimits(prev => ({ ...prev, maxLines: Math.min(4, Math.max(1, parseInt(e.target.value, 10) || 1)) }))}
+                          className="w-12 px-2 py-1 bg-slate-100 rounded-lg text-xs text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </label>
+                      <div className="flex bg-slate-100 p-0.5 rounded-lg">
+                        {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => setSubtitleExportFormat(format)}
+                            className={`px-2 py-0.5 rounded-md transition-all ${
+                              subtitleExportFormat === format ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'
+                            }`}
+                          >
+                            {format}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <pre {...languageTextProps(state.sourceLanguage)} className="flex-1 overflow-y-auto whitespace-pre-wrap font-sans text-sm text-slate-600 text-start">
+                    {renderDocumentText(activeDocument)}
+                  </pre>
+                </div>
+              ) : (
+                <label className="h-48 md:h-64 border-2 border-dashed border-slate-200 rounded-2xl flex flex-col items-center justify-center text-slate-400 cursor-pointer hover:border-indigo-300 hover:text-indigo-500 transition-colors">
+                  <i className={`fa-solid ${isParsingDocument ? 'fa-circle-notch fa-spin' : 'fa-file-arrow-up'} text-3xl mb-3`}></i>
+                  <span className="text-sm font-bold">{isParsingDocument ? 'Reading file...' : 'Upload a document'}</span>
+                  <span className="text-[10px] mt-1">{SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}</span>
+                  <input
+                    type="file"
+                    className="sr-only"
+                    accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleDocumentUpload(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              )
+            ) : (
+              <textarea
+                {...languageTextProps(state.sourceLanguage)}
+                className="w-full h-48 md:h-64 bg-transparent resize-none focus:outline-none text-lg text-slate-700 placeholder:text-slate-300 text-start"
+                placeholder={`Enter ${state.sourceLanguage} text...`}
+                value={state.sourceText}
+                onChange={(e) => setState(prev => ({ ...prev, sourceText: e.target.value }))}
+              />
+            )}
           </div>
           <div className="p-6 bg-slate-50/50 flex flex-col">
             <div className="flex items-center justify-between mb-2">
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">Translation ({state.targetLanguage})</label>
+              <div className="flex items-center space-x-2">
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">Translation ({state.targetLanguage})</label>
+                {isStreaming && (
+                  <span className="flex items-center text-[10px] text-indigo-500 animate-pulse font-bold">
+                    <i className="fa-solid fa-ellipsis fa-fade mr-1"></i>
+                    Streaming...
+                  </span>
+                )}
+                {!isStreaming && state.isIncomplete && (
+                  <span className="px-2 py-0.5 bg-amber-50 text-amber-600 border border-amber-200 text-[10px] font-bold rounded uppercase">Incomplete</span>
+                )}
+                {isFromMemory && (
+                  <span className="px-2 py-0.5 bg-emerald-50 text-emerald-600 border border-emerald-200 text-[10px] font-bold rounded uppercase">From Memory</span>
+                )}
+              </div>
               
-              {state.translatedText && (
+              {state.translatedText && !isStreaming && (
                 <div className="flex items-center space-x-2">
                   <button
                     onClick={handleGenerateGuide}
@@ -838,19 +1782,169 @@ const TextTranslator: React.FC = () => {
                     title={isSpeaking ? "Stop Pronunciation" : "Listen to Translation"}
                   >
                     <i className={`fa-solid ${isSpeaking ? 'fa-stop' : 'fa-volume-high'}`}></i>
-                    <span>{isSpeaking ? 'Playing...' : 'Pronounce'}</span>
+                    <span>{isSpeaking ? (isSpeechPaused ? 'Paused' : 'Playing...') : 'Pronounce'}</span>
+                  </button>
+
+                  <button
+                    onClick={downloadSpeech}
+                    disabled={isPreparingDownload}
+                    className="flex items-center space-x-2 px-3 py-1 rounded-full text-xs font-bold transition-all shadow-sm bg-white text-slate-500 border border-slate-200 hover:bg-slate-50 disabled:opacity-60"
+                    title="Download pronunciation as WAV"
+                  >
+                    <i className={`fa-solid ${isPreparingDownload ? 'fa-spinner fa-spin' : 'fa-download'}`}></i>
+                    <span>WAV</span>
                   </button>
                 </div>
               )}
             </div>
             
-            <div className="flex-1 overflow-y-auto min-h-[120px] max-h-48 mb-4">
-              <div className="text-lg text-slate-800 leading-relaxed">
-                {state.translatedText || (
-                  <span className="text-slate-300 italic">Translation will appear here...</span>
+            {isDocumentMode ? (
+              <div className="flex-1 flex flex-col min-h-[120px] mb-4">
+                {activeDocument && documentTranslations.some(t => t !== undefined) ? (
+                  <>
+                    <pre {...languageTextProps(state.targetLanguage)} className="flex-1 overflow-y-auto max-h-48 whitespace-pre-wrap font-sans text-sm text-slate-800 text-start">
+                      {renderDocumentText(activeDocument, documentTranslations, subtitleOptions)}
+                    </pre>
+                    {subtitleOverflowCount > 0 && (
+                      <p className="mt-2 text-[11px] font-bold text-amber-600 flex items-center">
+                        <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+                        {subtitleOverflowCount} cue{subtitleOverflowCount === 1 ? '' : 's'} exceed {subtitleLimits.maxLines} × {subtitleLimits.maxCharsPerLine} characters
+                      </p>
+                    )}
+                    <button
+                      onClick={downloadTranslatedDocument}
+                      className="mt-3 self-start flex items-center space-x-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold shadow-sm transition-colors"
+                    >
+                      <i className="fa-solid fa-download"></i>
+                      <span>Download {translatedFileName(activeDocument.fileName, state.targetLanguage, subtitleOptions?.format)}</span>
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-lg text-slate-300 italic">Translated document will appear here...</span>
                 )}
               </div>
-            </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto min-h-[120px] max-h-48 mb-4">
+                <div {...languageTextProps(state.targetLanguage)} className="text-lg text-slate-800 leading-relaxed text-start">
+                  {readAloud && readAloudParts ? (
+                    readAloudParts.map((part, i) => part.index === undefined ? (
+                      <React.Fragment key={i}>{part.text}</React.Fragment>
+                    ) : (
+                      <span
+                        key={i}
+                        onClick={() => skipToSentence(part.index!)}
+                        className={`rounded cursor-pointer transition-colors ${part.index === readAloud.index ? 'bg-indigo-100 text-indigo-900' : 'hover:bg-slate-100'}`}
+                        title="Read from this sentence"
+                      >
+                        {part.text}
+                      </span>
+                    ))
+                  ) : state.translatedText ? (
+                    splitByViolations(state.translatedText, glossaryViolations).map((part, i) => part.flagged ? (
+                      <mark key={i} className="bg-red-100 text-red-700 rounded px-0.5" title="Glossary violation">{part.text}</mark>
+                    ) : (
+                      <React.Fragment key={i}>{part.text}</React.Fragment>
+                    ))
+                  ) : (
+                    <span className="text-slate-300 italic">Translation will appear here...</span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {readAloud && readAloudParts && (
+              <div className="bg-indigo-50/60 border border-indigo-100 rounded-2xl px-3 py-2 mb-4 flex items-center space-x-2 animate-in fade-in">
+                <button
+                  onClick={() => skipToSentence(readAloud.index - 1)}
+                  disabled={readAloud.index === 0}
+                  className="w-7 h-7 rounded-full text-indigo-500 hover:bg-indigo-100 disabled:opacity-40 transition-colors flex items-center justify-center"
+                  title="Previous sentence"
+                >
+                  <i className="fa-solid fa-backward-step text-xs"></i>
+                </button>
+                <button
+                  onClick={toggleSpeechPause}
+                  className="w-8 h-8 rounded-full bg-indigo-600 hover:bg-indigo-700 text-white transition-colors flex items-center justify-center shadow-sm"
+                  title={isSpeechPaused ? 'Resume' : 'Pause'}
+                >
+                  <i className={`fa-solid ${isSpeechPaused ? 'fa-play' : 'fa-pause'} text-xs`}></i>
+                </button>
+                <button
+                  onClick={() => skipToSentence(readAloud.index + 1)}
+                  disabled={readAloud.index === readAloud.sentences.length - 1}
+                  className="w-7 h-7 rounded-full text-indigo-500 hover:bg-indigo-100 disabled:opacity-40 transition-colors flex items-center justify-center"
+                  title="Next sentence"
+                >
+                  <i className="fa-solid fa-forward-step text-xs"></i>
+                </button>
+                <div className="flex-1 flex items-center h-2 gap-0.5">
+                  {readAloud.sentences.map((sentence, i) => (
+                    <button
+                      key={i}
+                      onClick={() => skipToSentence(i)}
+                      style={{ flexGrow: sentence.length }}
+                      className={`h-full basis-0 min-w-[4px] rounded-full transition-colors ${
+                        i < readAloud.index ? 'bg-indigo-500' : i === readAloud.index ? 'bg-indigo-400 animate-pulse' : 'bg-indigo-100 hover:bg-indigo-200'
+                      }`}
+                      title={`Sentence ${i + 1}`}
+                    />
+                  ))}
+                </div>
+                <span className="text-[10px] font-bold text-indigo-600 whitespace-nowrap">
+                  {readAloud.index + 1} / {readAloud.sentences.length}
+                </span>
+              </div>
+            )}
+
+            {memorySuggestions.length > 0 && (
+              <div className="bg-emerald-50 border border-emerald-100 rounded-2xl p-4 mb-4 animate-in fade-in">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs font-bold text-emerald-700 flex items-center">
+                    <i className="fa-solid fa-database mr-2"></i>
+                    Similar translations in memory
+                  </p>
+                  <button onClick={() => setMemorySuggestions([])} className="text-emerald-300 hover:text-emerald-500 transition-colors">
+                    <i className="fa-solid fa-xmark text-xs"></i>
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {memorySuggestions.map(match => (
+                    <div key={match.entry.key} className="bg-white/70 rounded-xl p-3 border border-emerald-100 flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p {...languageTextProps(match.entry.sourceLanguage)} className="text-[11px] text-slate-400 line-clamp-1 text-start">{match.entry.sourceText}</p>
+                        <p {...languageTextProps(match.entry.targetLanguage)} className="text-sm text-slate-700 line-clamp-2 text-start">{match.entry.translatedText}</p>
+                      </div>
+                      <div className="flex flex-col items-end space-y-1 shrink-0">
+                        <span className="text-[10px] font-bold text-emerald-600">{Math.round(match.similarity * 100)}%</span>
+                        <button
+                          onClick={() => applyMemorySuggestion(match)}
+                          disabled={isStreaming}
+                          className="px-2 py-0.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded text-[10px] font-bold transition-colors"
+                        >
+                          Use
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {glossaryViolations.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 mb-4 text-xs text-amber-700 animate-in fade-in">
+                <p className="font-bold mb-2 flex items-center">
+                  <i className="fa-solid fa-book mr-2"></i>
+                  Glossary violations ({glossaryViolations.length})
+                </p>
+                <ul className="space-y-1">
+                  {glossaryViolations.map(v => (
+                    <li key={v.entry.id}>
+                      "<bdi {...languageTextProps(v.entry.sourceLanguage)}>{v.entry.sourceTerm}</bdi>" should appear as <span className="font-bold">"<bdi {...languageTextProps(v.entry.doNotTranslate ? v.entry.sourceLanguage : v.entry.targetLanguage)}>{v.expected}</bdi>"</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
             {showGuide && (
               <div className="bg-indigo-50 border border-indigo-100 rounded-2xl p-4 animate-in fade-in slide-in-from-bottom-2 duration-300 shadow-sm mb-4">
@@ -860,9 +1954,7 @@ const TextTranslator: React.FC = () => {
                       Guide
                     </div>
                     <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">
-                      {state.targetLanguage === 'Chinese' ? 'Pinyin' : 
-                       state.targetLanguage === 'Japanese' ? 'Romaji' : 
-                       state.targetLanguage === 'Korean' ? 'Romanization' : 'Phonetic IPA'}
+                      {getLanguageInfo(state.targetLanguage).romanization.label}
                     </span>
                   </div>
                   <div className="flex items-center space-x-2">
@@ -889,7 +1981,7 @@ const TextTranslator: React.FC = () => {
                     </button>
                   </div>
                 </div>
-                <div className="font-mono text-indigo-800 text-sm leading-relaxed bg-white/50 p-3 rounded-xl border border-indigo-50/50">
+                <div dir="ltr" className="font-mono text-indigo-800 text-sm leading-relaxed bg-white/50 p-3 rounded-xl border border-indigo-50/50">
                   {isGeneratingGuide ? (
                     <div className="flex items-center space-x-3 text-indigo-300 italic animate-pulse">
                       <i className="fa-solid fa-wand-sparkles fa-spin text-xs"></i>
@@ -908,6 +2000,14 @@ const TextTranslator: React.FC = () => {
                 <div className="flex-1">
                   <p className="font-bold mb-0.5">Translation Error</p>
                   <p>{state.error}</p>
+                  {errorDetail && (
+                    <ErrorActions
+                      error={errorDetail.error}
+                      occurredAt={errorDetail.occurredAt}
+                      onRetry={errorDetail.retry ? retryFailedAction : undefined}
+                      onOpenMicrophoneSettings={() => setIsVoicePanelOpen(true)}
+                    />
+                  )}
                 </div>
                 <button onClick={() => setState(prev => ({ ...prev, error: null }))} className="ml-2 text-red-400 hover:text-red-600 transition-colors">
                   <i className="fa-solid fa-xmark"></i>
@@ -916,8 +2016,30 @@ const TextTranslator: React.FC = () => {
             )}
           </div>
         </div>
+
+        {batchJob?.kind === 'text' && jobMatchesInput && (
+          <AlignedSentenceView
+            job={batchJob}
+            onRetranslate={retranslateSentence}
+            onEdit={editSentence}
+            onSpeak={speakSentence}
+            retranslatingIndex={retranslatingSentence}
+            speakingIndex={isSpeaking ? speakingSentence : null}
+            disabled={isBatchActive}
+          />
+        )}
       </div>
 
+      {showGlossary && (
+        <GlossaryManager
+          entries={glossary}
+          onChange={setGlossary}
+          sourceLanguage={state.sourceLanguage}
+          targetLanguage={state.targetLanguage}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
+
       {showHistory && (
         <div className="fixed inset-0 z-50 flex justify-end">
           <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={() => setShowHistory(false)}></div>
@@ -984,16 +2106,28 @@ const TextTranslator: React.FC = () => {
                         <span>{item.sourceLanguage}</span>
                         <i className="fa-solid fa-arrow-right text-[8px] text-slate-300"></i>
                         <span>{item.targetLanguage}</span>
+                        {item.isIncomplete && (
+                          <span className="px-1.5 py-0.5 bg-amber-50 text-amber-600 rounded normal-case tracking-normal">Incomplete</span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={(e) => speakHistoryItem(item, e)}
+                          className="opacity-0 group-hover:opacity-100 w-7 h-7 rounded-full bg-indigo-50 text-indigo-400 hover:bg-indigo-100 hover:text-indigo-600 transition-all flex items-center justify-center"
+                          title="Listen to translation"
+                        >
+                          <i className="fa-solid fa-volume-high text-xs"></i>
+                        </button>
+                        <button 
+                          onClick={(e) => deleteHistoryItem(item.id, e)}
+                          className="opacity-0 group-hover:opacity-100 w-7 h-7 rounded-full bg-red-50 text-red-400 hover:bg-red-100 hover:text-red-600 transition-all flex items-center justify-center"
+                        >
+                          <i className="fa-solid fa-trash-can text-xs"></i>
+                        </button>
                       </div>
-                      <button 
-                        onClick={(e) => deleteHistoryItem(item.id, e)}
-                        className="opacity-0 group-hover:opacity-100 w-7 h-7 rounded-full bg-red-50 text-red-400 hover:bg-red-100 hover:text-red-600 transition-all flex items-center justify-center"
-                      >
-                        <i className="fa-solid fa-trash-can text-xs"></i>
-                      </button>
                     </div>
-                    <p className="text-slate-700 text-sm line-clamp-2 font-medium mb-1">{item.sourceText}</p>
-                    <p className="text-slate-400 text-xs line-clamp-2 italic">{item.translatedText}</p>
+                    <p {...languageTextProps(item.sourceLanguage)} className="text-slate-700 text-sm line-clamp-2 font-medium mb-1 text-start">{item.sourceText}</p>
+                    <p {...languageTextProps(item.targetLanguage)} className="text-slate-400 text-xs line-clamp-2 italic text-start">{item.translatedText}</p>
                     <div className="mt-2 text-[10px] text-slate-300">
                       {new Date(item.timestamp).toLocaleString()}
                     </div>
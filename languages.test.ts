@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ALL_LANGUAGES, getLanguageInfo, getLanguagesByScript, isLanguage, languageTextProps, parseLanguage, splitSentences } from './languages';
+
+describe('getLanguageInfo', () => {
+  it('describes every registered language', () => {
+    for (const language of ALL_LANGUAGES) expect(getLanguageInfo(language).name).toBe(language);
+  });
+
+  it('includes the native sentence delimiters', () => {
+    expect(getLanguageInfo('Arabic').sentenceDelimiters).toContain('؟');
+    expect(getLanguageInfo('Hindi').sentenceDelimiters).toContain('।');
+    expect(getLanguageInfo('Urdu').sentenceDelimiters).toContain('۔');
+  });
+
+  it('gives right-to-left scripts their direction', () => {
+    expect(languageTextProps('Arabic')).toEqual({ dir: 'rtl', lang: 'ar' });
+    expect(languageTextProps('Hindi')).toEqual({ dir: 'ltr', lang: 'hi' });
+  });
+});
+
+describe('parseLanguage', () => {
+  it('falls back for unknown or missing values', () => {
+    expect(isLanguage('French')).toBe(true);
+    expect(parseLanguage('French', 'English')).toBe('French');
+    expect(parseLanguage('Klingon', 'English')).toBe('English');
+    expect(parseLanguage(null, 'German')).toBe('German');
+  });
+});
+
+describe('getLanguagesByScript', () => {
+  it('groups languages sharing a script', () => {
+    expect(getLanguagesByScript('Arabic')).toEqual(['Urdu', 'Arabic']);
+    expect(getLanguagesByScript('Kana')).toEqual(['Japanese']);
+  });
+});
+
+describe('splitSentences', () => {
+  const split = (text: string, language: Parameters<typeof splitSentences>[1]) => splitSentences(text, language).map(s => s.trim());
+
+  it('splits on Latin punctuation and keeps it with the sentence', () => {
+    expect(split('Hello there. How are you?! Fine', 'English')).toEqual(['Hello there.', 'How are you?!', 'Fine']);
+  });
+
+  it('splits on line breaks and drops blank lines', () => {
+    expect(split('First line\n\nSecond line', 'English')).toEqual(['First line', 'Second line']);
+  });
+
+  it('splits Arabic on the Arabic question mark', () => {
+    expect(split('كيف حالك؟ أنا بخير.', 'Arabic')).toEqual(['كيف حالك؟', 'أنا بخير.']);
+  });
+
+  it('splits Hindi on the danda', () => {
+    expect(split('मेरा नाम राम है। आप कैसे हैं?', 'Hindi')).toEqual(['मेरा नाम राम है।', 'आप कैसे हैं?']);
+  });
+
+  it('splits Japanese on full-width punctuation without spaces', () => {
+    expect(split('おはよう。元気ですか？', 'Japanese')).toEqual(['おはよう。', '元気ですか？']);
+  });
+
+  it('only uses the delimiters of the given language', () => {
+    expect(split('मेरा नाम राम है। आप', 'English')).toEqual(['मेरा नाम राम है। आप']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitSentences('  ', 'English')).toEqual([]);
+  });
+});
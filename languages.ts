@@ -0,0 +1,129 @@
+export type ScriptDirection = 'ltr' | 'rtl';
+
+export type WritingScript = 'Latin' | 'Han' | 'Kana' | 'Hangul' | 'Arabic' | 'Devanagari';
+
+export interface LanguageInfo {
+  name: string; // English name, also used in model prompts and persisted settings
+  code: string; // ISO 639-1
+  nativeName: string;
+  direction: ScriptDirection;
+  script: WritingScript;
+  romanization: {
+    scheme: string; // Instruction passed to the pronunciation guide prompt
+    label: string; // Short badge shown above the guide
+  };
+  defaultVoice: string;
+  sentenceDelimiters: string; // Characters that end a sentence for step-by-step splitting
+  subtitle: {
+    maxCharsPerLine: number;
+    maxLines: number;
+  };
+}
+
+// To support a new language, add an entry here. Everything else reads from this list.
+const LANGUAGE_REGISTRY = [
+  {
+    name: 'Japanese', code: 'ja', nativeName: '日本語', direction: 'ltr', script: 'Kana',
+    romanization: { scheme: 'Romaji', label: 'Romaji' },
+    defaultVoice: 'Kore', sentenceDelimiters: '。！？!?',
+    subtitle: { maxCharsPerLine: 16, maxLines: 2 },
+  },
+  {
+    name: 'Korean', code: 'ko', nativeName: '한국어', direction: 'ltr', script: 'Hangul',
+    romanization: { scheme: 'Revised Romanization', label: 'Romanization' },
+    defaultVoice: 'Kore', sentenceDelimiters: '.!?。',
+    subtitle: { maxCharsPerLine: 16, maxLines: 2 },
+  },
+  {
+    name: 'Chinese', code: 'zh', nativeName: '中文', direction: 'ltr', script: 'Han',
+    romanization: { scheme: 'Pinyin with tone marks', label: 'Pinyin' },
+    defaultVoice: 'Zephyr', sentenceDelimiters: '。！？!?',
+    subtitle: { maxCharsPerLine: 16, maxLines: 2 },
+  },
+  {
+    name: 'French', code: 'fr', nativeName: 'Français', direction: 'ltr', script: 'Latin',
+    romanization: { scheme: 'IPA (International Phonetic Alphabet)', label: 'Phonetic IPA' },
+    defaultVoice: 'Zephyr', sentenceDelimiters: '.!?',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+  {
+    name: 'Italian', code: 'it', nativeName: 'Italiano', direction: 'ltr', script: 'Latin',
+    romanization: { scheme: 'IPA (International Phonetic Alphabet)', label: 'Phonetic IPA' },
+    defaultVoice: 'Puck', sentenceDelimiters: '.!?',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+  {
+    name: 'English', code: 'en', nativeName: 'English', direction: 'ltr', script: 'Latin',
+    romanization: { scheme: 'IPA (International Phonetic Alphabet)', label: 'Phonetic IPA' },
+    defaultVoice: 'Zephyr', sentenceDelimiters: '.!?',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+  {
+    name: 'Urdu', code: 'ur', nativeName: 'اردو', direction: 'rtl', script: 'Arabic',
+    romanization: { scheme: 'Romanized Urdu (Transliteration)', label: 'Roman Urdu' },
+    defaultVoice: 'Charon', sentenceDelimiters: '۔؟!.?',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+  {
+    name: 'Spanish', code: 'es', nativeName: 'Español', direction: 'ltr', script: 'Latin',
+    romanization: { scheme: 'IPA (International Phonetic Alphabet)', label: 'Phonetic IPA' },
+    defaultVoice: 'Puck', sentenceDelimiters: '.!?',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+  {
+    name: 'German', code: 'de', nativeName: 'Deutsch', direction: 'ltr', script: 'Latin',
+    romanization: { scheme: 'IPA (International Phonetic Alphabet)', label: 'Phonetic IPA' },
+    defaultVoice: 'Fenrir', sentenceDelimiters: '.!?',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+  {
+    name: 'Arabic', code: 'ar', nativeName: 'العربية', direction: 'rtl', script: 'Arabic',
+    romanization: { scheme: 'ALA-LC Arabic romanization', label: 'Romanization' },
+    defaultVoice: 'Charon', sentenceDelimiters: '.!?؟',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+  {
+    name: 'Hindi', code: 'hi', nativeName: 'हिन्दी', direction: 'ltr', script: 'Devanagari',
+    romanization: { scheme: 'IAST transliteration', label: 'IAST' },
+    defaultVoice: 'Kore', sentenceDelimiters: '।॥.!?',
+    subtitle: { maxCharsPerLine: 42, maxLines: 2 },
+  },
+] as const satisfies readonly LanguageInfo[];
+
+export type Language = typeof LANGUAGE_REGISTRY[number]['name'];
+
+export const ALL_LANGUAGES: Language[] = LANGUAGE_REGISTRY.map(l => l.name);
+
+const BY_NAME = new Map<string, LanguageInfo>(LANGUAGE_REGISTRY.map(l => [l.name, l]));
+
+export function getLanguageInfo(language: Language): LanguageInfo {
+  return BY_NAME.get(language)!;
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && BY_NAME.has(value);
+}
+
+// Restores a persisted language, falling back when it was removed from the registry.
+export function parseLanguage(value: string | null, fallback: Language): Language {
+  return isLanguage(value) ? value : fallback;
+}
+
+export function getLanguagesByScript(script: WritingScript): Language[] {
+  return ALL_LANGUAGES.filter(l => getLanguageInfo(l).script === script);
+}
+
+const escapeForClass = (chars: string) => chars.replace(/[\]\\^-]/g, '\\$&');
+
+export function splitSentences(text: string, language: Language): string[] {
+  const delimiters = escapeForClass(getLanguageInfo(language).sentenceDelimiters) + '\\n';
+  const pattern = new RegExp(`[^${delimiters}]+[${delimiters}]*`, 'g');
+  const sentences = text.match(pattern) || [text];
+  return sentences.filter(s => s.trim() !== '');
+}
+
+// Attributes for any element rendering text in a given language: sets direction and lets CSS pick script fonts.
+export function languageTextProps(language: Language): { dir: ScriptDirection; lang: string } {
+  const info = getLanguageInfo(language);
+  return { dir: info.direction, lang: info.code };
+}
@@ -0,0 +1,168 @@
+import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import type { Language, GlossaryEntry } from '../types';
+import { buildGlossaryInstruction } from '../utils/glossaryUtils';
+import type { TranslationProvider, TranslateRequest, LiveSessionOptions, LiveSession } from './translationProvider';
+
+const TEXT_MODEL = 'gemini-3-flash-preview';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+const withGlossary = (prompt: string, glossary?: GlossaryEntry[]) => {
+  const terminology = buildGlossaryInstruction(glossary || []);
+  return terminology ? `${prompt}\n\n${terminology}` : prompt;
+};
+
+const buildInterpreterInstruction = (sourceLanguage: Language, targetLanguage: Language) =>
+  `You are a professional 2-way live translation assistant. The user is currently in a conversation between ${sourceLanguage} and ${targetLanguage}. 
+- When you hear ${sourceLanguage}, translate it into ${targetLanguage} and speak ONLY the translation.
+- When you hear ${targetLanguage}, translate it into ${sourceLanguage} and speak ONLY the translation.
+- If you are unsure which of the two languages is being spoken, use the context to decide.
+- Do not add conversational filler. Speak naturally and concisely.`;
+
+const withHistory = (instruction: string, history?: LiveSessionOptions['history']) => {
+  if (!history?.length) return instruction;
+  const lines = history.map(turn => `${turn.role === 'user' ? 'Speaker' : 'You'}: ${turn.text}`);
+  return `${instruction}\n\nThe connection was interrupted. The conversation so far (context only, do not repeat it):\n${lines.join('\n')}`;
+};
+
+const buildTranscriberInstruction = (language: Language) =>
+  `You are a transcription assistant. The user is speaking ${language}. Transcribe their speech accurately. Do not respond with audio.`;
+
+const buildSubtitlePrompt = ({ text, sourceLanguage, targetLanguage, context, subtitleLimits }: TranslateRequest) => {
+  const lines = [
+    `Translate this ${sourceLanguage} subtitle cue into ${targetLanguage}. Output ONLY the translated cue text.`,
+  ];
+  if (subtitleLimits) {
+    lines.push(`Keep it readable on screen: at most ${subtitleLimits.maxLines} lines of ${subtitleLimits.maxCharsPerLine} characters. Condense wording if needed, but keep the meaning.`);
+  }
+  if (context?.before.length) lines.push(`Previous cues (context only, do not translate):\n${context.before.join('\n')}`);
+  if (context?.after.length) lines.push(`Following cues (context only, do not translate):\n${context.after.join('\n')}`);
+  lines.push(`Cue: ${text.trim()}`);
+  return lines.join('\n\n');
+};
+
+const buildTranslateParams = (request: TranslateRequest) => {
+  const { text, sourceLanguage, targetLanguage, granularity = 'document', glossary } = request;
+  if (granularity === 'subtitle') {
+    return { model: TEXT_MODEL, contents: withGlossary(buildSubtitlePrompt(request), glossary), config: { temperature: 0.2 } };
+  }
+  return {
+    model: TEXT_MODEL,
+    contents: granularity === 'sentence'
+      ? withGlossary(`Translate this single sentence from ${sourceLanguage} to ${targetLanguage}: "${text.trim()}"`, glossary)
+      : `Translate the following ${sourceLanguage} text into ${targetLanguage}. Output ONLY the translated text.${
+          glossary?.length ? `\n\n${buildGlossaryInstruction(glossary)}` : ''
+        }\n\nText: ${text}`,
+    config: granularity === 'sentence'
+      ? { temperature: 0.1 }
+      : { temperature: 0.3, topP: 1 },
+  };
+};
+
+export function createGeminiProvider(apiKey: string): TranslationProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    async translate(request) {
+      const response = await ai.models.generateContent(buildTranslateParams(request));
+      return response.text || '';
+    },
+
+    async *translateStream(request, signal) {
+      const params = buildTranslateParams(request);
+      const stream = await ai.models.generateContentStream({
+        ...params,
+        config: { ...params.config, abortSignal: signal },
+      });
+      for await (const chunk of stream) {
+        if (signal?.aborted) return;
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    async detectLanguage(text, candidates) {
+      const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: `Identify the language of the following text. Respond ONLY with exactly one word from this list: ${candidates.join(', ')}. If you are uncertain, respond with the most likely one. \n\nText: ${text.substring(0, 200)}`,
+        config: {
+          temperature: 0,
+          topP: 1,
+        }
+      });
+      const detected = response.text?.trim() as Language;
+      return detected && candidates.includes(detected) ? detected : null;
+    },
+
+    async generatePronunciationGuide({ text, language, scheme }) {
+      const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: `Generate a clear pronunciation guide for this ${language} text: "${text}". 
+          Use ${scheme}. 
+          Output ONLY the guide text, no headers or extra explanation. If it's a long text, maintain the structure.`,
+        config: { temperature: 0.1 }
+      });
+      return response.text || '';
+    },
+
+    async synthesizeSpeech({ text, language, voice }) {
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text: `Please read this ${language} text naturally: ${text}` }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice },
+            },
+          },
+        },
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    },
+
+    async connectLive({ mode, sourceLanguage, targetLanguage, voice, glossary, history, callbacks }: LiveSessionOptions): Promise<LiveSession> {
+      const isInterpreter = mode === 'interpret';
+      const session = await ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          ...(isInterpreter ? {
+            outputAudioTranscription: {},
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voice || 'Kore' } },
+            },
+            systemInstruction: withHistory(withGlossary(buildInterpreterInstruction(sourceLanguage, targetLanguage || sourceLanguage), glossary), history),
+          } : {
+            systemInstruction: buildTranscriberInstruction(sourceLanguage),
+          }),
+        },
+        callbacks: {
+          onopen: () => callbacks.onopen?.(),
+          onmessage: (message: LiveServerMessage) => {
+            const content = message.serverContent;
+            if (!content) return;
+            callbacks.onmessage({
+              audio: content.modelTurn?.parts?.[0]?.inlineData?.data,
+              inputTranscription: content.inputTranscription?.text,
+              outputTranscription: content.outputTranscription?.text,
+              interrupted: content.interrupted,
+              turnComplete: content.turnComplete,
+            });
+          },
+          onerror: (e) => callbacks.onerror?.(e),
+          onclose: (e: CloseEvent) => callbacks.onclose?.({ code: e.code, reason: e.reason }),
+        }
+      });
+
+      return {
+        sendAudio: (blob) => session.sendRealtimeInput({ media: blob }),
+        endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        close: () => session.close(),
+      };
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider, mockTranslate, synthesizeTone } from './mockProvider';
+import { decode } from '../utils/audioUtils';
+import type { LiveSessionEvent } from './translationProvider';
+import type { GlossaryEntry } from '../types';
+
+// One second of silent 16 kHz PCM16 in the shape the live session expects.
+const secondOfAudio = () => ({
+  data: Buffer.from(new Uint8Array(16000 * 2)).toString('base64'),
+  mimeType: 'audio/pcm;rate=16000',
+});
+
+describe('mockTranslate', () => {
+  it('tags the text with the target language', () => {
+    expect(mockTranslate('  Hello world ', 'Japanese')).toBe('[Japanese] Hello world');
+  });
+
+  it('applies glossary terms except those marked do-not-translate', () => {
+    const glossary: GlossaryEntry[] = [
+      { id: '1', sourceLanguage: 'English', targetLanguage: 'Japanese', sourceTerm: 'cat', targetTerm: 'neko' },
+      { id: '2', sourceLanguage: 'English', targetLanguage: 'Japanese', sourceTerm: 'Lingua', targetTerm: 'ignored', doNotTranslate: true },
+    ];
+    expect(mockTranslate('Lingua has a cat', 'Japanese', glossary)).toBe('[Japanese] Lingua has a neko');
+  });
+});
+
+describe('synthesizeTone', () => {
+  it('scales the clip with the text and caps it at four seconds', () => {
+    const bytes = (text: string) => decode(synthesizeTone(text)).length;
+    expect(bytes('hi')).toBe(Math.floor(0.3 * 24000) * 2);
+    expect(bytes('x'.repeat(40))).toBe(2 * 24000 * 2);
+    expect(bytes('x'.repeat(500))).toBe(4 * 24000 * 2);
+  });
+});
+
+describe('createMockProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const provider = createMockProvider();
+
+  it('translates after a simulated delay', async () => {
+    const result = provider.translate({ text: 'Good morning', sourceLanguage: 'English', targetLanguage: 'French' });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('[French] Good morning');
+  });
+
+  it('streams the same translation token by token', async () => {
+    const tokens: string[] = [];
+    const done = (async () => {
+      for await (const token of provider.translateStream({ text: 'one two three', sourceLanguage: 'English', targetLanguage: 'German' })) {
+        tokens.push(token);
+      }
+    })();
+    await vi.runAllTimersAsync();
+    await done;
+    expect(tokens).toEqual(['[German] ', 'one ', 'two ', 'three']);
+  });
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController();
+    const tokens: string[] = [];
+    const done = (async () => {
+      for await (const token of provider.translateStream({ text: 'one two three', sourceLanguage: 'English', targetLanguage: 'German' }, controller.signal)) {
+        tokens.push(token);
+        controller.abort();
+      }
+    })();
+    await vi.runAllTimersAsync();
+    await done;
+    expect(tokens).toEqual(['[German] ']);
+  });
+
+  it('returns no speech for empty text', async () => {
+    const speech = provider.synthesizeSpeech({ text: '  ', language: 'English', voice: 'Kore' });
+    await vi.runAllTimersAsync();
+    await expect(speech).resolves.toBeNull();
+  });
+
+  it('emits an interpreted turn after three seconds of audio', async () => {
+    const events: LiveSessionEvent[] = [];
+    const onopen = vi.fn();
+    const sessionPromise = provider.connectLive({
+      mode: 'interpret',
+      sourceLanguage: 'English',
+      targetLanguage: 'Spanish',
+      callbacks: { onopen, onmessage: e => events.push(e) },
+    });
+    await vi.runAllTimersAsync();
+    const session = await sessionPromise;
+    expect(onopen).toHaveBeenCalledOnce();
+
+    session.sendAudio(secondOfAudio());
+    session.sendAudio(secondOfAudio());
+    expect(events).toEqual([]);
+    session.sendAudio(secondOfAudio());
+
+    expect(events.map(e => Object.keys(e))).toEqual([['inputTranscription'], ['audio', 'outputTranscription'], ['turnComplete']]);
+    expect(events[0].inputTranscription).toBe('Mock English utterance 1');
+    expect(events[1].outputTranscription).toBe('[Spanish] Mock English utterance 1');
+  });
+
+  it('ends a short turn when the audio stream ends, and stays silent after close', async () => {
+    const events: LiveSessionEvent[] = [];
+    const onclose = vi.fn();
+    const sessionPromise = provider.connectLive({
+      mode: 'transcribe',
+      sourceLanguage: 'English',
+      callbacks: { onmessage: e => events.push(e), onclose },
+    });
+    await vi.runAllTimersAsync();
+    const session = await sessionPromise;
+
+    session.endAudioStream();
+    expect(events).toEqual([]);
+    session.sendAudio(secondOfAudio());
+    session.endAudioStream();
+    expect(events).toEqual([{ inputTranscription: 'Mock English utterance 1. ' }]);
+
+    session.close();
+    session.close();
+    session.sendAudio(secondOfAudio());
+    session.endAudioStream();
+    expect(onclose).toHaveBeenCalledOnce();
+    expect(events).toHaveLength(1);
+  });
+});
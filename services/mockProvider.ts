@@ -0,0 +1,118 @@
+import type { Language, GlossaryEntry } from '../types';
+import { guessLanguage } from '../utils/languageDetection';
+import type { TranslationProvider, LiveSession } from './translationProvider';
+import { encode } from '../utils/audioUtils';
+
+// Deterministic in-process backend for offline development, demos and tests.
+// Every response is derived from the request alone so repeated calls always agree.
+
+const MOCK_LATENCY_MS = 250;
+const MOCK_TOKEN_INTERVAL_MS = 60;
+const MOCK_SAMPLE_RATE = 24000;
+// A mock turn is emitted after this much microphone audio, or when the audio stream ends.
+const SECONDS_PER_TURN = 3;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function mockTranslate(text: string, targetLanguage: Language, glossary: GlossaryEntry[] = []): string {
+  let output = text.trim();
+  for (const entry of glossary) {
+    if (!entry.doNotTranslate && entry.sourceTerm.trim()) {
+      output = output.split(entry.sourceTerm).join(entry.targetTerm);
+    }
+  }
+  return `[${targetLanguage}] ${output}`;
+}
+
+// A short sine tone whose length scales with the text, encoded like the real TTS output.
+export function synthesizeTone(text: string, frequency = 440): string {
+  const seconds = Math.min(4, Math.max(0.3, text.length * 0.05));
+  const frames = Math.floor(seconds * MOCK_SAMPLE_RATE);
+  const pcm = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    const envelope = Math.min(1, i / 600, (frames - i) / 600);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / MOCK_SAMPLE_RATE) * 8000 * envelope);
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+export function createMockProvider(): TranslationProvider {
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+
+    async translate({ text, targetLanguage, glossary }) {
+      await delay(MOCK_LATENCY_MS);
+      return mockTranslate(text, targetLanguage, glossary);
+    },
+
+    async *translateStream({ text, targetLanguage, glossary }, signal) {
+      await delay(MOCK_LATENCY_MS);
+      const tokens = mockTranslate(text, targetLanguage, glossary).match(/\S+\s*/g) || [];
+      for (const token of tokens) {
+        if (signal?.aborted) return;
+        yield token;
+        await delay(MOCK_TOKEN_INTERVAL_MS);
+      }
+    },
+
+    async detectLanguage(text, candidates) {
+      await delay(MOCK_LATENCY_MS);
+      return guessLanguage(text, candidates);
+    },
+
+    async generatePronunciationGuide({ text, scheme }) {
+      await delay(MOCK_LATENCY_MS);
+      return `(${scheme}) ${text.toLowerCase()}`;
+    },
+
+    async synthesizeSpeech({ text }) {
+      await delay(MOCK_LATENCY_MS);
+      return text.trim() ? synthesizeTone(text) : null;
+    },
+
+    async connectLive({ mode, sourceLanguage, targetLanguage, callbacks }): Promise<LiveSession> {
+      await delay(MOCK_LATENCY_MS);
+
+      let closed = false;
+      let bufferedSeconds = 0;
+      let turn = 0;
+
+      setTimeout(() => {
+        if (!closed) callbacks.onopen?.();
+      }, 0);
+
+      const completeTurn = () => {
+        bufferedSeconds = 0;
+        turn++;
+        const utterance = `Mock ${sourceLanguage} utterance ${turn}`;
+        if (mode === 'transcribe') {
+          callbacks.onmessage({ inputTranscription: `${utterance}. ` });
+          return;
+        }
+
+        const translation = mockTranslate(utterance, targetLanguage || sourceLanguage);
+        callbacks.onmessage({ inputTranscription: utterance });
+        callbacks.onmessage({ audio: synthesizeTone(translation), outputTranscription: translation });
+        callbacks.onmessage({ turnComplete: true });
+      };
+
+      return {
+        sendAudio: ({ data, mimeType }) => {
+          if (closed) return;
+          const rate = Number(mimeType.match(/rate=(\d+)/)?.[1]) || 16000;
+          bufferedSeconds += (data.length * 3) / 4 / 2 / rate; // base64 → bytes → 16-bit samples
+          if (bufferedSeconds >= SECONDS_PER_TURN) completeTurn();
+        },
+        endAudioStream: () => {
+          if (!closed && bufferedSeconds > 0) completeTurn();
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          callbacks.onclose?.({ code: 1000, reason: '' });
+        },
+      };
+    },
+  };
+}
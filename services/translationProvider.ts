@@ -0,0 +1,97 @@
+import type { Language, GlossaryEntry } from '../types';
+import type { SubtitleLimits } from '../utils/subtitleUtils';
+import type { ConnectionClose } from '../utils/errorUtils';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export interface TranslateRequest {
+  text: string;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  // 'sentence' is used by step-by-step mode where each call holds a single sentence,
+  // 'subtitle' translates one cue using its neighbours as context.
+  granularity?: 'document' | 'sentence' | 'subtitle';
+  glossary?: GlossaryEntry[];
+  context?: { before: string[]; after: string[] };
+  subtitleLimits?: SubtitleLimits;
+}
+
+export interface PronunciationRequest {
+  text: string;
+  language: Language;
+  scheme: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  language: Language;
+  voice: string;
+}
+
+export interface PcmBlob {
+  data: string;
+  mimeType: string;
+}
+
+export interface LiveSessionEvent {
+  audio?: string; // base64 PCM16 @ 24kHz
+  inputTranscription?: string;
+  outputTranscription?: string;
+  interrupted?: boolean;
+  turnComplete?: boolean;
+}
+
+export interface LiveSessionCallbacks {
+  onopen?: () => void;
+  onmessage: (event: LiveSessionEvent) => void;
+  onerror?: (error: unknown) => void;
+  onclose?: (close?: ConnectionClose) => void;
+}
+
+export interface LiveSessionOptions {
+  // 'interpret' is the two-way voice interpreter, 'transcribe' is dictation into the source textarea.
+  mode: 'interpret' | 'transcribe';
+  sourceLanguage: Language;
+  targetLanguage?: Language;
+  voice?: string;
+  glossary?: GlossaryEntry[];
+  // Recent turns of the conversation, so a reconnected interpreter keeps the context of what was said.
+  history?: Array<{ role: 'user' | 'model'; text: string }>;
+  callbacks: LiveSessionCallbacks;
+}
+
+export interface LiveSession {
+  sendAudio: (blob: PcmBlob) => void;
+  // Tells the service the microphone went quiet (voice gate closed, push-to-talk released) so it
+  // finishes the current turn instead of waiting for more audio.
+  endAudioStream: () => void;
+  close: () => void;
+}
+
+export interface TranslationProvider {
+  id: string;
+  label: string;
+  translate: (request: TranslateRequest) => Promise<string>;
+  // Yields translated text incrementally; stops quietly once the signal is aborted.
+  translateStream: (request: TranslateRequest, signal?: AbortSignal) => AsyncGenerator<string>;
+  detectLanguage: (text: string, candidates: Language[]) => Promise<Language | null>;
+  generatePronunciationGuide: (request: PronunciationRequest) => Promise<string>;
+  // Resolves to base64 PCM16 mono audio at 24kHz, or null when the backend returned no audio.
+  synthesizeSpeech: (request: SpeechRequest) => Promise<string | null>;
+  connectLive: (options: LiveSessionOptions) => Promise<LiveSession>;
+}
+
+let activeProvider: TranslationProvider | null = null;
+
+export function getTranslationProvider(): TranslationProvider {
+  if (!activeProvider) {
+    activeProvider = process.env.TRANSLATION_PROVIDER === 'mock'
+      ? createMockProvider()
+      : createGeminiProvider(process.env.API_KEY || '');
+  }
+  return activeProvider;
+}
+
+export function setTranslationProvider(provider: TranslationProvider | null) {
+  activeProvider = provider;
+}
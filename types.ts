@@ -1,7 +1,7 @@
 
-export type Language = 'Japanese' | 'Korean' | 'Chinese' | 'French' | 'Italian' | 'English' | 'Urdu';
+import type { Language } from './languages';
 
-export const ALL_LANGUAGES: Language[] = ['Japanese', 'Korean', 'Chinese', 'French', 'Italian', 'English', 'Urdu'];
+export type { Language };
 
 export interface TranslationState {
   sourceText: string;
@@ -11,6 +11,7 @@ export interface TranslationState {
   isLoading: boolean;
   error: string | null;
   pronunciationGuide?: string;
+  isIncomplete?: boolean;
 }
 
 export enum AppMode {
@@ -33,11 +34,78 @@ export interface HistoryItem {
   timestamp: number;
   voice?: string;
   speechRate?: number;
+  isIncomplete?: boolean; // Streaming was stopped before the translation finished
+}
+
+export interface GlossaryEntry {
+  id: string;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  sourceTerm: string;
+  targetTerm: string;
+  doNotTranslate?: boolean; // Keep sourceTerm verbatim in the output
+}
+
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  expected: string;
+}
+
+export interface TranslationMemoryEntry {
+  key: string; // sourceLanguage|targetLanguage|normalized source
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  updatedAt: number;
+  useCount: number;
+}
+
+export interface TranslationMemoryMatch {
+  entry: TranslationMemoryEntry;
+  similarity: number; // 0..1, 1 for exact matches
+}
+
+// One exchange of a live conversation: what was said and the interpreter's translation of it.
+export interface VoiceTurn {
+  original: string;
+  translation: string; // Empty when the interpreter's answer had no transcript
+  sourceLanguage: Language; // Language of the original, guessed locally; the live service does not report it
+  targetLanguage: Language;
+  timestamp?: number;
+  originalAudioId?: string; // Keys of the recorded clips in the voice audio store, when recording was on
+  translationAudioId?: string;
 }
 
 export interface VoiceHistoryItem {
   id: string;
   timestamp: number;
-  messages: Array<{ role: 'user' | 'model'; text: string }>;
+  messages: VoiceTurn[];
   summary?: string; // Short snippet for the list view
+  sourceLanguage?: Language;
+  targetLanguage?: Language;
+  voice?: string;
+}
+
+// 'retried' sentences were translated, but only after at least one failed attempt.
+export type BatchSentenceStatus = 'pending' | 'done' | 'failed' | 'retried';
+
+export interface BatchSentence {
+  source: string;
+  translation?: string;
+  status: BatchSentenceStatus;
+  attempts: number;
+  error?: string; // Last failure message, kept while the sentence is failed
+}
+
+export interface BatchJob {
+  id: string;
+  kind: 'text' | 'document' | 'subtitle';
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  sourceText?: string; // Input of 'text' jobs
+  fileName?: string; // Input of 'document' and 'subtitle' jobs; the file itself is not stored
+  unit: string;
+  sentences: BatchSentence[];
+  updatedAt: number;
 }
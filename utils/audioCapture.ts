@@ -0,0 +1,114 @@
+import { createResampler } from './audioUtils';
+
+// Microphone capture on the audio rendering thread. The worklet resamples the context's rate to the
+// requested PCM rate, converts Float32 to Int16 and posts fixed-size chunks, so the main thread only
+// receives ready-to-send buffers.
+
+export const CHUNK_DURATIONS_MS = [20, 50, 100, 250];
+export const DEFAULT_CHUNK_MS = 100;
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+const WORKLET_SOURCE = `
+const createResampler = ${createResampler.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    this.resample = createResampler(sampleRate, targetSampleRate);
+    this.chunkSamples = chunkSamples;
+    this.chunk = new Int16Array(chunkSamples);
+    this.filled = 0;
+    this.levelSum = 0;
+  }
+
+  push(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    this.levelSum += Math.abs(s);
+    if (this.filled === this.chunkSamples) this.flush();
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    const pcm = this.filled === this.chunkSamples ? this.chunk : this.chunk.slice(0, this.filled);
+    this.port.postMessage({ pcm, level: this.levelSum / this.filled }, [pcm.buffer]);
+    this.chunk = new Int16Array(this.chunkSamples);
+    this.filled = 0;
+    this.levelSum = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    const samples = this.resample(input);
+    for (let i = 0; i < samples.length; i++) this.push(samples[i]);
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let moduleUrl: string | null = null;
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorkletModule(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  if (!moduleUrl) {
+    moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  await ctx.audioWorklet.addModule(moduleUrl);
+  loadedContexts.add(ctx);
+}
+
+export interface AudioCaptureOptions {
+  sampleRate: number; // Rate of the emitted PCM, independent of the context's rate
+  chunkMs: number;
+  gain?: number; // Linear input gain, applied before resampling
+  onChunk: (pcm: Int16Array, level: number) => void; // level is the chunk's mean absolute amplitude (0..1)
+}
+
+export interface AudioCapture {
+  setGain: (gain: number) => void;
+  stop: () => void;
+}
+
+export async function startAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  { sampleRate, chunkMs, gain = 1, onChunk }: AudioCaptureOptions,
+): Promise<AudioCapture> {
+  await ensureWorkletModule(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const gainNode = ctx.createGain();
+  gainNode.gain.value = gain;
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetSampleRate: sampleRate,
+      chunkSamples: Math.max(1, Math.round(sampleRate * chunkMs / 1000)),
+    },
+  });
+  node.port.onmessage = (e: MessageEvent<{ pcm: Int16Array; level: number }>) => onChunk(e.data.pcm, e.data.level);
+  source.connect(gainNode);
+  gainNode.connect(node);
+
+  return {
+    setGain: (value) => {
+      gainNode.gain.setTargetAtTime(value, ctx.currentTime, 0.02);
+    },
+    stop: () => {
+      source.disconnect();
+      gainNode.disconnect();
+      node.port.onmessage = null;
+      node.port.close();
+    },
+  };
+}
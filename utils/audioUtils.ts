@@ -9,18 +9,20 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+// Converts in slices: String.fromCharCode over a whole buffer overflows the call stack, and a
+// per-byte loop is slow enough to stall the main thread on long sessions.
 export function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const SLICE = 0x8000;
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += SLICE) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + SLICE) as unknown as number[]));
   }
-  return btoa(binary);
+  return btoa(parts.join(''));
 }
 
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
@@ -37,14 +39,121 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array, sampleRate: number = 16000): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export function createBlob(pcm: Int16Array, sampleRate: number = 16000): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
     mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+// Streaming windowed-sinc resampler. Each call takes the next block of input and returns the output
+// samples that are ready; output lags input by the filter's half width. When downsampling, the
+// cutoff sits just below the output Nyquist frequency so content above it is filtered out instead
+// of folding back as aliasing.
+//
+// This function is also inlined into the capture AudioWorklet via toString(), so it must not
+// reference anything outside its own body.
+export function createResampler(inputRate: number, outputRate: number): (input: Float32Array) => Float32Array {
+  if (inputRate === outputRate) return (input) => input.slice();
+
+  const HALF_TAPS = 16; // Zero crossings on each side of the kernel, in output samples
+  const PHASES = 64; // Kernel table resolution per input sample
+  const step = inputRate / outputRate;
+  const scale = Math.min(1, outputRate / inputRate);
+  const cutoff = 0.5 * scale * 0.92; // Cycles per input sample, leaving a transition band
+  const reach = Math.ceil(HALF_TAPS / scale); // Kernel half width in input samples
+
+  const table = new Float32Array(reach * PHASES + 2);
+  for (let i = 0; i < reach * PHASES; i++) {
+    const t = i / PHASES;
+    const x = 2 * Math.PI * cutoff * t;
+    const sinc = t === 0 ? 1 : Math.sin(x) / x;
+    const w = 0.5 + 0.5 * t / reach; // Blackman window, centered
+    const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * w) + 0.08 * Math.cos(4 * Math.PI * w);
+    table[i] = 2 * cutoff * sinc * window;
+  }
+  const kernel = (t: number) => {
+    const index = Math.abs(t) * PHASES;
+    const i = Math.floor(index);
+    const f = index - i;
+    return table[i] * (1 - f) + table[i + 1] * f;
+  };
+
+  // Starts with `reach` samples of silence so the first input sample has left context.
+  let buffer = new Float32Array(reach * 4 + 4096);
+  let length = reach;
+  let position = reach;
+
+  return (input) => {
+    if (length + input.length > buffer.length) {
+      const grown = new Float32Array((length + input.length) * 2);
+      grown.set(buffer.subarray(0, length));
+      buffer = grown;
+    }
+    buffer.set(input, length);
+    length += input.length;
+
+    const output = new Float32Array(Math.max(0, Math.ceil((length - reach - position) / step)) + 1);
+    let count = 0;
+    while (Math.floor(position) + reach < length) {
+      const base = Math.floor(position);
+      let acc = 0;
+      for (let k = base - reach + 1; k <= base + reach; k++) {
+        acc += buffer[k] * kernel(position - k);
+      }
+      output[count++] = acc;
+      position += step;
+    }
+
+    const drop = Math.max(0, Math.floor(position) - reach + 1);
+    buffer.copyWithin(0, drop, length);
+    length -= drop;
+    position -= drop;
+    return output.subarray(0, count);
+  };
+}
+
+export function concatPcm(chunks: Int16Array[]): Int16Array {
+  const merged = new Int16Array(chunks.reduce((total, c) => total + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+}
+
+export function pcmToFloat32(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768.0;
+  return samples;
+}
+
+// 16-bit mono PCM in a RIFF/WAVE container.
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+}
@@ -0,0 +1,68 @@
+import { BatchJob, BatchSentence, BatchSentenceStatus, Language } from '../types';
+
+const BATCH_STORAGE_KEY = 'lingua_batch_job';
+
+export const SENTENCE_STATUS_STYLES: Record<BatchSentenceStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-slate-300' },
+  done: { label: 'Done', className: 'bg-emerald-500' },
+  retried: { label: 'Retried', className: 'bg-amber-400' },
+  failed: { label: 'Failed', className: 'bg-red-500' },
+};
+
+export function createBatchJob(
+  kind: BatchJob['kind'],
+  sentences: string[],
+  sourceLanguage: Language,
+  targetLanguage: Language,
+  input: { sourceText?: string; fileName?: string; unit?: string },
+): BatchJob {
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    sourceLanguage,
+    targetLanguage,
+    sourceText: input.sourceText,
+    fileName: input.fileName,
+    unit: input.unit || 'Sentence',
+    sentences: sentences.map(source => ({ source, status: 'pending', attempts: 0 })),
+    updatedAt: Date.now(),
+  };
+}
+
+// The job of the last batch run, so an interrupted or partly failed run survives a reload.
+export function loadBatchJob(): BatchJob | null {
+  const saved = localStorage.getItem(BATCH_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to parse batch job', e);
+    return null;
+  }
+}
+
+export function saveBatchJob(job: BatchJob | null) {
+  if (job) {
+    localStorage.setItem(BATCH_STORAGE_KEY, JSON.stringify(job));
+  } else {
+    localStorage.removeItem(BATCH_STORAGE_KEY);
+  }
+}
+
+export const isTranslated = (sentence: BatchSentence) => sentence.status === 'done' || sentence.status === 'retried';
+
+export function countBatchSentences(job: BatchJob) {
+  const translated = job.sentences.filter(isTranslated).length;
+  const failed = job.sentences.filter(s => s.status === 'failed').length;
+  return { translated, failed, pending: job.sentences.length - translated - failed, total: job.sentences.length };
+}
+
+// Puts failed sentences back in line, so a resumed run covers them along with those not started yet.
+export const requeueFailed = (job: BatchJob): BatchJob => ({
+  ...job,
+  sentences: job.sentences.map(s => s.status === 'failed' ? { ...s, status: 'pending', error: undefined } : s),
+});
+
+// Translations by sentence index; sentences without one yet stay undefined.
+export const batchTranslations = (job: BatchJob): Array<string | undefined> =>
+  job.sentences.map(s => isTranslated(s) ? s.translation : undefined);
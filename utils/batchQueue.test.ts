@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, estimateRemainingMs, formatDuration } from './batchQueue';
+
+const notCancelled = () => false;
+
+// Resolves to the time (in fake ms since the start) at which each acquire got its token.
+async function acquireTimes(acquires: Array<Promise<boolean>>, start: number): Promise<number[]> {
+  const times: number[] = [];
+  acquires.forEach((p, i) => p.then(() => { times[i] = Date.now() - start; }));
+  await vi.runAllTimersAsync();
+  return times;
+}
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets a burst through, then paces requests at the configured rate', async () => {
+    const limiter = createRateLimiter(60, 2);
+    const start = Date.now();
+    const times = await acquireTimes(Array.from({ length: 4 }, () => limiter.acquire(notCancelled)), start);
+    expect(times.slice(0, 2)).toEqual([0, 0]);
+    expect(times[2]).toBeGreaterThanOrEqual(1000);
+    expect(times[3]).toBeGreaterThanOrEqual(2000);
+    expect(times[3]).toBeLessThan(2500);
+  });
+
+  it('holds every request during a back-off and halves the rate', async () => {
+    const limiter = createRateLimiter(60, 1);
+    await limiter.acquire(notCancelled);
+    limiter.backOff(5000);
+    const start = Date.now();
+    const times = await acquireTimes([limiter.acquire(notCancelled), limiter.acquire(notCancelled)], start);
+    expect(times[0]).toBeGreaterThanOrEqual(5000);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(2000);
+  });
+
+  it('regains the full rate after enough successes', async () => {
+    const limiter = createRateLimiter(60, 1);
+    limiter.backOff(0);
+    for (let i = 0; i < 20; i++) limiter.succeed();
+    const start = Date.now();
+    const times = await acquireTimes([limiter.acquire(notCancelled), limiter.acquire(notCancelled)], start);
+    expect(times[1] - times[0]).toBeLessThan(1100);
+  });
+
+  it('gives up waiting once the run is cancelled', async () => {
+    const limiter = createRateLimiter(60, 1);
+    await limiter.acquire(notCancelled);
+    let cancelled = false;
+    const waiting = limiter.acquire(() => cancelled);
+    await vi.advanceTimersByTimeAsync(300);
+    cancelled = true;
+    await vi.runAllTimersAsync();
+    await expect(waiting).resolves.toBe(false);
+  });
+});
+
+describe('estimateRemainingMs', () => {
+  it('projects the average pace of recent completions', () => {
+    expect(estimateRemainingMs([0, 1000, 3000], 4)).toBe(6000);
+    expect(estimateRemainingMs([0], 4)).toBeNull();
+    expect(estimateRemainingMs([0, 1000], 0)).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses the largest sensible units', () => {
+    expect(formatDuration(200)).toBe('1s');
+    expect(formatDuration(59_000)).toBe('59s');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+    expect(formatDuration(3_780_000)).toBe('1h 3m');
+  });
+});
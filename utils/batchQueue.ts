@@ -0,0 +1,72 @@
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 4, 8];
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+export const REQUESTS_PER_MINUTE_RANGE = { min: 5, max: 600 };
+export const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+const POLL_MS = 250; // How often a waiting request checks for cancellation
+const RECOVERY_STEP = 0.05; // Share of the configured rate regained per successful request after a back-off
+
+export interface RateLimiter {
+  // Resolves once a request may be sent, or with false if the run was cancelled while waiting.
+  acquire: (isCancelled: () => boolean) => Promise<boolean>;
+  // Pauses every request for the given time and halves the rate, e.g. after a 429.
+  backOff: (ms: number) => void;
+  // Slowly restores the rate after a back-off.
+  succeed: () => void;
+}
+
+// Token bucket shared by all workers of a batch run. The bucket holds up to `burst` requests and
+// refills at the current rate, which drops after rate-limit errors and recovers as requests succeed.
+export function createRateLimiter(requestsPerMinute: number, burst: number): RateLimiter {
+  const maxRatePerMs = requestsPerMinute / 60000;
+  let ratePerMs = maxRatePerMs;
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let blockedUntil = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + Math.max(0, now - lastRefill) * ratePerMs);
+    lastRefill = Math.max(lastRefill, now);
+  };
+
+  return {
+    async acquire(isCancelled) {
+      for (;;) {
+        if (isCancelled()) return false;
+        refill();
+        const now = Date.now();
+        if (now >= blockedUntil && tokens >= 1) {
+          tokens -= 1;
+          return true;
+        }
+        const wait = Math.max(blockedUntil - now, (1 - tokens) / ratePerMs);
+        await new Promise(r => setTimeout(r, Math.min(wait, POLL_MS)));
+      }
+    },
+    backOff(ms) {
+      blockedUntil = Math.max(blockedUntil, Date.now() + ms);
+      ratePerMs = Math.max(maxRatePerMs / 16, ratePerMs / 2);
+      tokens = 0;
+      lastRefill = blockedUntil;
+    },
+    succeed() {
+      ratePerMs = Math.min(maxRatePerMs, ratePerMs + maxRatePerMs * RECOVERY_STEP);
+    },
+  };
+}
+
+// Remaining time from the pace of the most recent completions, which follows concurrency and back-offs.
+export function estimateRemainingMs(completedAt: number[], remaining: number): number | null {
+  if (completedAt.length < 2 || remaining === 0) return null;
+  const perItem = (completedAt[completedAt.length - 1] - completedAt[0]) / (completedAt.length - 1);
+  return perItem * remaining;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
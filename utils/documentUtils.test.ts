@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import {
+  buildTranslatedDocument, getDocumentSegments, joinSentencesIntoSegments, parseDocument, renderDocumentText,
+  splitSegmentsIntoSentences,
+} from './documentUtils';
+import { readZip, writeZip } from './zipUtils';
+
+// jsdom's Blob and File cannot be read back, so the files are Node's while XML parsing stays jsdom's.
+beforeAll(() => {
+  vi.stubGlobal('Blob', NodeBlob);
+  vi.stubGlobal('File', NodeFile);
+});
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DOCUMENT_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W}"><w:body>
+<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Hello </w:t></w:r><w:r><w:t>world.</w:t></w:r></w:p>
+<w:p><w:r><w:t> </w:t></w:r></w:p>
+<w:p><w:r><w:t>Second paragraph.</w:t></w:r></w:p>
+</w:body></w:document>`;
+
+const docxFile = () => {
+  const encoder = new TextEncoder();
+  const blob = writeZip([
+    { name: '[Content_Types].xml', data: encoder.encode('<Types/>') },
+    { name: 'word/document.xml', data: encoder.encode(DOCUMENT_XML) },
+  ]);
+  return new File([blob], 'letter.docx');
+};
+
+describe('docx round trip', () => {
+  it('translates paragraphs in place and keeps the rest of the archive', async () => {
+    const doc = await parseDocument(docxFile());
+    expect(getDocumentSegments(doc)).toEqual(['Hello world.', 'Second paragraph.']);
+
+    const blob = buildTranslatedDocument(doc, ['Bonjour le monde.', undefined]);
+    const entries = await readZip(await blob.arrayBuffer());
+    expect(entries.map(e => e.name)).toEqual(['[Content_Types].xml', 'word/document.xml']);
+
+    const xml = new DOMParser().parseFromString(new TextDecoder().decode(entries[1].data), 'application/xml');
+    const paragraphs = Array.from(xml.getElementsByTagNameNS(W, 'p')).map(p =>
+      Array.from(p.getElementsByTagNameNS(W, 't')).map(t => t.textContent));
+    expect(paragraphs).toEqual([['Bonjour le monde.', ''], [' '], ['Second paragraph.']]);
+    // The first run keeps its formatting.
+    expect(xml.getElementsByTagNameNS(W, 'b')).toHaveLength(1);
+
+    const reparsed = await parseDocument(new File([blob], 'letter.fr.docx'));
+    expect(getDocumentSegments(reparsed)).toEqual(['Bonjour le monde.', 'Second paragraph.']);
+  });
+});
+
+describe('plain text', () => {
+  const prose = 'The quick brown fox jumps over the lazy dog and keeps on\nrunning through the field until the sun goes down\nand then it sleeps.';
+  const content = `Title\n\n  Roses are red,\n  violets are blue.\n\n${prose}\n`;
+
+  it('renders the source unchanged when nothing is translated', async () => {
+    const doc = await parseDocument(new File([content], 'poem.txt'));
+    expect(renderDocumentText(doc)).toBe(content);
+  });
+
+  it('keeps short lines apart and rewraps hard-wrapped prose', async () => {
+    const doc = await parseDocument(new File([content], 'poem.txt'));
+    const segments = getDocumentSegments(doc);
+    expect(segments.slice(0, 3)).toEqual(['Title', 'Roses are red,', 'violets are blue.']);
+
+    const translated = segments.map(s => s.replace(/\s*\n\s*/g, ' ').toUpperCase());
+    expect(renderDocumentText(doc, translated)).toBe(
+      'TITLE\n\n  ROSES ARE RED,\n  VIOLETS ARE BLUE.\n\n' +
+      'THE QUICK BROWN FOX JUMPS OVER THE LAZY DOG AND KEEPS ON\nRUNNING THROUGH THE FIELD UNTIL THE SUN GOES DOWN AND\nTHEN IT SLEEPS.\n',
+    );
+  });
+
+  it('splits segments into sentences and joins them back', () => {
+    const { sentences, owners } = splitSegmentsIntoSentences(['One. Two.', 'Three.'], 'English');
+    expect(sentences.map(s => s.trim())).toEqual(['One.', 'Two.', 'Three.']);
+    expect(owners).toEqual([0, 0, 1]);
+    expect(joinSentencesIntoSegments(['Un.', 'Deux.', undefined], owners, 2, 'French')).toEqual(['Un. Deux.', undefined]);
+  });
+});
@@ -0,0 +1,270 @@
+import { readZip, writeZip, ZipEntries } from './zipUtils';
+import {
+  SubtitleTrack, SubtitleFormat, SubtitleLimits, parseSubtitles, serializeSubtitles, applySubtitleTranslations, wrapSubtitleText,
+} from './subtitleUtils';
+import { splitSentences, getLanguageInfo } from '../languages';
+import type { Language } from '../types';
+
+export type DocumentFormat = 'txt' | 'md' | 'srt' | 'vtt' | 'docx';
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.txt', '.md', '.srt', '.vtt', '.docx'];
+
+// A document is a flat list of blocks. Only translatable blocks are sent to the model;
+// prefix/suffix carry the structure (heading markers, subtitle timings, line breaks) untouched.
+export interface DocumentBlock {
+  prefix: string;
+  text: string;
+  suffix: string;
+  translatable: boolean;
+  wrapAt?: number; // Column a hard-wrapped plain-text paragraph was wrapped at; its translation is wrapped the same way
+}
+
+export interface ParsedDocument {
+  fileName: string;
+  format: DocumentFormat;
+  blocks: DocumentBlock[];
+  // Original archive for .docx, rewritten on export.
+  archive?: ZipEntries;
+  // Cues for .srt/.vtt; each cue is one translatable block.
+  subtitles?: SubtitleTrack;
+}
+
+export interface SubtitleExportOptions {
+  format: SubtitleFormat;
+  limits: SubtitleLimits;
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DOCX_BODY = 'word/document.xml';
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  txt: 'text/plain;charset=utf-8',
+  md: 'text/markdown;charset=utf-8',
+  srt: 'application/x-subrip;charset=utf-8',
+  vtt: 'text/vtt;charset=utf-8',
+  docx: DOCX_MIME,
+};
+
+export function detectDocumentFormat(fileName: string): DocumentFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'txt' || ext === 'md' || ext === 'srt' || ext === 'vtt' || ext === 'docx') return ext;
+  if (ext === 'markdown') return 'md';
+  return null;
+}
+
+const fixed = (text: string): DocumentBlock => ({ prefix: '', text, suffix: '', translatable: false });
+
+const HARD_WRAP_MIN_COLUMNS = 40; // A paragraph whose broken lines are all this long is wrapped prose
+
+// Paragraphs are separated by blank lines. Prose hard-wrapped at a fixed width is translated as one
+// segment and wrapped again at that width; other line breaks (verse, addresses, short lists) are kept
+// by translating each line as its own segment.
+function parsePlainText(content: string): DocumentBlock[] {
+  return content.split(/(\n[ \t]*\n+)/).flatMap(part => {
+    if (!part.trim()) return [fixed(part)];
+    const [, indent, body, trailing] = part.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    const pieces = body.split(/([ \t]*\n\s*)/);
+    const lines = pieces.filter((_, i) => i % 2 === 0);
+    const width = (line: string) => Array.from(line).length;
+    if (lines.length > 1 && lines.slice(0, -1).every(line => width(line) >= HARD_WRAP_MIN_COLUMNS)) {
+      return [{ prefix: indent, text: body, suffix: trailing, translatable: true, wrapAt: Math.max(...lines.map(width)) }];
+    }
+    return pieces.map((piece, i) => i % 2 ? fixed(piece) : {
+      prefix: i === 0 ? indent : '',
+      text: piece,
+      suffix: i === pieces.length - 1 ? trailing : '',
+      translatable: true,
+    });
+  });
+}
+
+const MARKDOWN_PREFIX = /^(\s*(?:#{1,6}\s+|>\s*|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)*)(.*?)(\s*)$/;
+
+function parseMarkdown(content: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let inFence = false;
+  const lines = content.split('\n');
+
+  lines.forEach((line, i) => {
+    const newline = i < lines.length - 1 ? '\n' : '';
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      blocks.push(fixed(line + newline));
+      return;
+    }
+    // Code, blank lines, horizontal rules and table separators stay as they are.
+    if (inFence || !line.trim() || /^\s*([-*_]\s*){3,}$/.test(line) || /^\s*\|?[\s:|-]+\|[\s:|-]*$/.test(line)) {
+      blocks.push(fixed(line + newline));
+      return;
+    }
+    const [, prefix, text, trailing] = line.match(MARKDOWN_PREFIX)!;
+    blocks.push(text
+      ? { prefix, text, suffix: trailing + newline, translatable: true }
+      : fixed(line + newline));
+  });
+  return blocks;
+}
+
+const subtitleBlocks = (track: SubtitleTrack): DocumentBlock[] => track.cues.map(cue => ({
+  prefix: `${cue.identifier ? cue.identifier + '\n' : ''}${cue.start} --> ${cue.end}\n`,
+  text: cue.text,
+  suffix: '\n\n',
+  translatable: true,
+}));
+
+const closestParagraph = (node: Element): Element | null => {
+  let current = node.parentElement;
+  while (current && !(current.namespaceURI === W_NS && current.localName === 'p')) current = current.parentElement;
+  return current;
+};
+
+// Text runs directly owned by a paragraph, excluding those of nested paragraphs (e.g. text boxes).
+function paragraphTextNodes(paragraph: Element): Element[] {
+  return Array.from(paragraph.getElementsByTagNameNS(W_NS, 't')).filter(t => closestParagraph(t) === paragraph);
+}
+
+function docxParagraphs(xml: Document): Element[] {
+  return Array.from(xml.getElementsByTagNameNS(W_NS, 'p'))
+    .filter(p => paragraphTextNodes(p).some(t => (t.textContent || '').trim()));
+}
+
+async function parseDocx(buffer: ArrayBuffer): Promise<{ blocks: DocumentBlock[]; archive: ZipEntries }> {
+  const archive = await readZip(buffer);
+  const body = archive.find(e => e.name === DOCX_BODY);
+  if (!body) throw new Error('This .docx file has no document body.');
+
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(body.data), 'application/xml');
+  const blocks = docxParagraphs(xml).map(p => ({
+    prefix: '',
+    text: paragraphTextNodes(p).map(t => t.textContent || '').join(''),
+    suffix: '\n\n',
+    translatable: true,
+  }));
+  return { blocks, archive };
+}
+
+export async function parseDocument(file: File): Promise<ParsedDocument> {
+  const format = detectDocumentFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported file type. Please upload one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}`);
+  }
+
+  if (format === 'docx') {
+    const { blocks, archive } = await parseDocx(await file.arrayBuffer());
+    return { fileName: file.name, format, blocks, archive };
+  }
+
+  const content = (await file.text()).replace(/\r\n?/g, '\n');
+  if (format === 'srt' || format === 'vtt') {
+    const subtitles = parseSubtitles(content, format);
+    return { fileName: file.name, format, blocks: subtitleBlocks(subtitles), subtitles };
+  }
+
+  const blocks = format === 'md' ? parseMarkdown(content) : parsePlainText(content);
+  return { fileName: file.name, format, blocks };
+}
+
+export function getDocumentSegments(doc: ParsedDocument): string[] {
+  return doc.blocks.filter(b => b.translatable).map(b => b.text);
+}
+
+// Breaks segments into sentence units for the step-by-step pipeline, remembering which segment each came from.
+export function splitSegmentsIntoSentences(
+  segments: string[],
+  language: Language,
+): { sentences: string[]; owners: number[] } {
+  const sentences: string[] = [];
+  const owners: number[] = [];
+  segments.forEach((segment, index) => {
+    for (const sentence of splitSentences(segment.replace(/\n/g, ' '), language)) {
+      sentences.push(sentence);
+      owners.push(index);
+    }
+  });
+  return { sentences, owners };
+}
+
+// Reassembles translated sentences per segment. Segments with no translated sentence yet stay undefined.
+export function joinSentencesIntoSegments(
+  translations: Array<string | undefined>,
+  owners: number[],
+  segmentCount: number,
+  targetLanguage: Language,
+): Array<string | undefined> {
+  // Scripts written without spaces between sentences are joined directly.
+  const separator = ['Han', 'Kana'].includes(getLanguageInfo(targetLanguage).script) ? '' : ' ';
+  const grouped: string[][] = Array.from({ length: segmentCount }, () => []);
+  translations.forEach((t, i) => {
+    if (t !== undefined) grouped[owners[i]].push(t.trim());
+  });
+  return grouped.map(parts => parts.length ? parts.join(separator) : undefined);
+}
+
+// Falls back to the source text for any segment not translated yet, so partial jobs still export.
+export function renderDocumentText(
+  doc: ParsedDocument,
+  translations: Array<string | undefined> = [],
+  subtitleOptions?: SubtitleExportOptions,
+): string {
+  if (doc.subtitles && subtitleOptions) {
+    const { track } = applySubtitleTranslations(doc.subtitles, translations, subtitleOptions.limits);
+    return serializeSubtitles(track, subtitleOptions.format);
+  }
+
+  let segment = 0;
+  return doc.blocks.map(block => {
+    if (!block.translatable) return block.text;
+    const translated = translations[segment++];
+    const text = translated === undefined ? block.text
+      : block.wrapAt ? wrapSubtitleText(translated, { maxCharsPerLine: block.wrapAt, maxLines: Infinity }).text
+      : translated;
+    return block.prefix + text + block.suffix;
+  }).join('');
+}
+
+function buildDocx(doc: ParsedDocument, translations: Array<string | undefined>): Blob {
+  const archive = doc.archive!;
+  const body = archive.find(e => e.name === DOCX_BODY)!;
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(body.data), 'application/xml');
+
+  docxParagraphs(xml).forEach((paragraph, i) => {
+    const translated = translations[i];
+    if (translated === undefined) return;
+    // Keep the first run's formatting for the whole translated paragraph.
+    const [first, ...rest] = paragraphTextNodes(paragraph);
+    first.textContent = translated;
+    first.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve');
+    rest.forEach(t => { t.textContent = ''; });
+  });
+
+  const updated = new TextEncoder().encode(new XMLSerializer().serializeToString(xml));
+  return writeZip(archive.map(e => e.name === DOCX_BODY ? { name: e.name, data: updated } : e), DOCX_MIME);
+}
+
+export function buildTranslatedDocument(
+  doc: ParsedDocument,
+  translations: Array<string | undefined>,
+  subtitleOptions?: SubtitleExportOptions,
+): Blob {
+  if (doc.format === 'docx') return buildDocx(doc, translations);
+  const format = subtitleOptions?.format || doc.format;
+  return new Blob([renderDocumentText(doc, translations, subtitleOptions)], { type: MIME_TYPES[format] });
+}
+
+export function translatedFileName(fileName: string, language: Language, extension?: string): string {
+  const dot = fileName.lastIndexOf('.');
+  const code = getLanguageInfo(language).code;
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const ext = extension ? `.${extension}` : dot > 0 ? fileName.slice(dot) : '';
+  return `${base}.${code}${ext}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
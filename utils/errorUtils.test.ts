@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyError, isFatalConnectionLoss, withRetry } from './errorUtils';
+
+const domError = (name: string) => Object.assign(new Error(name), { name });
+
+describe('classifyError', () => {
+  it.each([
+    [domError('NotAllowedError'), 'microphone-denied'],
+    [domError('NotReadableError'), 'audio-device'],
+    [new Error('429 Too Many Requests'), 'rate-limited'],
+    [Object.assign(new Error('boom'), { status: 429 }), 'rate-limited'],
+    [new Error('You exceeded your current quota'), 'quota'],
+    [new Error('API key not valid'), 'auth'],
+    [new Error('403 Forbidden'), 'permission'],
+    [new Error('503 Service Unavailable'), 'server'],
+    [new Error('Response was blocked due to SAFETY'), 'safety-blocked'],
+    [new TypeError('Failed to fetch'), 'network'],
+    ['something odd', 'unknown'],
+  ])('classifies %s as %s', (error, kind) => {
+    expect(classifyError(error).kind).toBe(kind);
+  });
+
+  it('marks only transient failures as retryable', () => {
+    expect(classifyError(new Error('503')).retryable).toBe(true);
+    expect(classifyError(new Error('API key not valid')).retryable).toBe(false);
+    expect(classifyError(new Error('API key not valid')).retryAfterMs).toBeUndefined();
+  });
+
+  it('reads the suggested delay from a RetryInfo detail or Retry-After', () => {
+    const gemini = new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","details":[{"retryDelay":"12s"}]}}');
+    expect(classifyError(gemini)).toMatchObject({ kind: 'rate-limited', retryable: true, retryAfterMs: 12000 });
+    expect(classifyError(new Error('503 Retry-After: 1.5')).retryAfterMs).toBe(1500);
+  });
+
+  it('treats a quota error with a retry delay as a rate limit', () => {
+    expect(classifyError(new Error('429 quota exceeded, retryDelay: "30s"'))).toMatchObject({ kind: 'rate-limited', retryAfterMs: 30000 });
+  });
+
+  it('falls back to a default delay for retryable errors', () => {
+    expect(classifyError(new Error('500 Internal')).retryAfterMs).toBe(3000);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries retryable failures with exponential backoff', async () => {
+    vi.useFakeTimers();
+    const onRetry = vi.fn();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('503'))
+      .mockRejectedValueOnce(new Error('503'))
+      .mockResolvedValue('ok');
+    const result = withRetry(operation, { baseDelayMs: 5000, onRetry });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(onRetry.mock.calls.map(([, attempt, delayMs]) => [attempt, delayMs])).toEqual([[1, 5000], [2, 10000]]);
+  });
+
+  it('rethrows non-retryable errors at once', async () => {
+    const error = new Error('API key not valid');
+    const operation = vi.fn().mockRejectedValue(error);
+    await expect(withRetry(operation)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledOnce();
+  });
+
+  it('gives up after the last attempt', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn().mockRejectedValue(new Error('503'));
+    const result = expect(withRetry(operation, { maxAttempts: 2 })).rejects.toThrow('503');
+    await vi.runAllTimersAsync();
+    await result;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('surfaces a suggested wait longer than the limit instead of sleeping through it', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('429 retryDelay: "60s"'));
+    await expect(withRetry(operation, { maxDelayMs: 20000 })).rejects.toThrow('429');
+    expect(operation).toHaveBeenCalledOnce();
+  });
+
+  it('stops waiting when aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new Error('503'));
+    const result = expect(withRetry(operation, { baseDelayMs: 10000, signal: controller.signal })).rejects.toThrow('stopped');
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort(new Error('stopped'));
+    await result;
+    expect(operation).toHaveBeenCalledOnce();
+  });
+});
+
+describe('isFatalConnectionLoss', () => {
+  it('reconnects after a bare error event from a dropped socket', () => {
+    expect(isFatalConnectionLoss(new Event('error'))).toBe(false);
+    expect(isFatalConnectionLoss(new TypeError('Failed to fetch'))).toBe(false);
+    expect(isFatalConnectionLoss(new Error('503 Service Unavailable'))).toBe(false);
+    expect(isFatalConnectionLoss()).toBe(false);
+  });
+
+  it('reconnects after an abnormal or server-side restart close', () => {
+    expect(isFatalConnectionLoss(undefined, { code: 1006, reason: '' })).toBe(false);
+    expect(isFatalConnectionLoss(undefined, { code: 1011, reason: 'Internal error encountered.' })).toBe(false);
+    expect(isFatalConnectionLoss(undefined, { code: 1000, reason: '' })).toBe(false);
+  });
+
+  it('stops on errors that would repeat on every attempt', () => {
+    expect(isFatalConnectionLoss(new Error('API key not valid. Please pass a valid API key.'))).toBe(true);
+    expect(isFatalConnectionLoss(new Error('403 Forbidden'))).toBe(true);
+    expect(isFatalConnectionLoss(new Error('You exceeded your current quota'))).toBe(true);
+  });
+
+  it('stops on policy closes and on closes whose reason is fatal', () => {
+    expect(isFatalConnectionLoss(undefined, { code: 1008, reason: '' })).toBe(true);
+    expect(isFatalConnectionLoss(undefined, { code: 1007, reason: 'Request contains an invalid argument.' })).toBe(true);
+    expect(isFatalConnectionLoss(undefined, { code: 1011, reason: 'You exceeded your current quota.' })).toBe(true);
+  });
+});
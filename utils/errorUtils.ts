@@ -1,34 +1,149 @@
 
-export function parseApiError(error: any): string {
+export type ErrorKind =
+  | 'rate-limited'
+  | 'auth'
+  | 'permission'
+  | 'quota'
+  | 'safety-blocked'
+  | 'network'
+  | 'server'
+  | 'microphone-denied'
+  | 'audio-device'
+  | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  message: string; // Shown to the user
+  retryable: boolean;
+  retryAfterMs?: number; // Suggested wait before trying again
+}
+
+const DEFAULT_RETRY_AFTER_MS: Partial<Record<ErrorKind, number>> = {
+  'rate-limited': 10000,
+  server: 3000,
+  network: 2000,
+};
+
+// Gemini puts a RetryInfo detail ("retryDelay": "12s") in the error body; plain HTTP services send Retry-After.
+function parseRetryAfter(message: string): number | undefined {
+  const delay = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i) || message.match(/retry[- ]after:?\s*(\d+(?:\.\d+)?)/i);
+  return delay ? Math.ceil(parseFloat(delay[1]) * 1000) : undefined;
+}
+
+function classify(kind: ErrorKind, message: string, retryAfterMs?: number): ClassifiedError {
+  const retryable = kind in DEFAULT_RETRY_AFTER_MS;
+  return { kind, message, retryable, retryAfterMs: retryable ? retryAfterMs ?? DEFAULT_RETRY_AFTER_MS[kind] : undefined };
+}
+
+export function classifyError(error: any): ClassifiedError {
   const message = error?.message || String(error);
+  const lower = message.toLowerCase();
+  const status = typeof error?.status === 'number' ? error.status : Number(message.match(/\b([45]\d\d)\b/)?.[1]);
 
-  if (message.includes('429') || message.toLowerCase().includes('too many requests')) {
-    return 'Rate limit exceeded. Please wait a moment before trying again.';
+  // getUserMedia and AudioContext failures are DOMExceptions identified by name.
+  if (error?.name === 'NotAllowedError' || error?.name === 'SecurityError') {
+    return classify('microphone-denied', 'Microphone access was denied. Allow the microphone for this site in your browser settings.');
+  }
+  if (['NotFoundError', 'NotReadableError', 'OverconstrainedError'].includes(error?.name)) {
+    return classify('audio-device', 'The microphone could not be used. Check that it is connected and not in use by another app.');
   }
-  
-  if (message.includes('401') || message.toLowerCase().includes('api key')) {
-    return 'Invalid API key. Please check your configuration.';
+
+  const retryAfterMs = parseRetryAfter(message);
+
+  if (lower.includes('quota') && retryAfterMs === undefined) {
+    return classify('quota', 'Account quota exceeded. Please check your Google AI Studio billing status.');
   }
 
-  if (message.includes('403')) {
-    return 'Permission denied. Your API key may not have access to this model or region.';
+  if (status === 429 || lower.includes('too many requests') || lower.includes('resource_exhausted')) {
+    return classify('rate-limited', 'Rate limit exceeded. Please wait a moment before trying again.', retryAfterMs);
   }
 
-  if (message.includes('500') || message.includes('503')) {
-    return 'The translation service is currently busy or unavailable. Please try again later.';
+  if (status === 401 || lower.includes('api key')) {
+    return classify('auth', 'Invalid API key. Please check your configuration.');
   }
 
-  if (message.toLowerCase().includes('safety') || message.toLowerCase().includes('blocked')) {
-    return 'The content was flagged by safety filters and could not be processed.';
+  if (status === 403) {
+    return classify('permission', 'Permission denied. Your API key may not have access to this model or region.');
   }
 
-  if (message.toLowerCase().includes('network') || message.toLowerCase().includes('fetch')) {
-    return 'Network error. Please check your internet connection.';
+  if (status >= 500) {
+    return classify('server', 'The translation service is currently busy or unavailable. Please try again later.', retryAfterMs);
   }
 
-  if (message.toLowerCase().includes('quota')) {
-    return 'Account quota exceeded. Please check your Google AI Studio billing status.';
+  if (lower.includes('safety') || lower.includes('blocked')) {
+    return classify('safety-blocked', 'The content was flagged by safety filters and could not be processed.');
   }
 
-  return 'An unexpected error occurred: ' + message;
+  if (lower.includes('network') || lower.includes('fetch') || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return classify('network', 'Network error. Please check your internet connection.');
+  }
+
+  return classify('unknown', 'An unexpected error occurred: ' + message);
+}
+
+// How the service ended a live connection, from the WebSocket close event.
+export interface ConnectionClose {
+  code: number;
+  reason: string;
+}
+
+// Failures that come back on every attempt, so reconnecting cannot help.
+const FATAL_KINDS: ErrorKind[] = ['auth', 'permission', 'quota', 'safety-blocked'];
+// Close codes for a request the server will refuse again: protocol error, unsupported or invalid data,
+// policy violation (used for a rejected key or exhausted quota).
+const FATAL_CLOSE_CODES = [1002, 1003, 1007, 1008];
+
+export const connectionCloseError = ({ code, reason }: ConnectionClose) =>
+  new Error(reason || `The service closed the connection (code ${code}).`);
+
+// Whether a dropped live connection should end the session rather than be reconnected. Only failures known
+// to repeat are fatal; network errors, bare error events without details and abnormal closes (1006) are not.
+export function isFatalConnectionLoss(error?: unknown, close?: ConnectionClose): boolean {
+  if (close && FATAL_CLOSE_CODES.includes(close.code)) return true;
+  const cause = error ?? (close?.reason ? connectionCloseError(close) : undefined);
+  return cause !== undefined && FATAL_KINDS.includes(classifyError(cause).kind);
+}
+
+export function parseApiError(error: any): string {
+  return classifyError(error).message;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  // Longer suggested waits are not slept through; the error is surfaced so the UI can offer a retry instead.
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: ClassifiedError, attempt: number, delayMs: number) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs an operation, retrying retryable failures with exponential backoff (or the service's suggested
+// delay when it is longer). Non-retryable errors and the last failure are rethrown unchanged.
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 20000, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const classified = classifyError(err);
+      const delayMs = Math.max(baseDelayMs * 2 ** (attempt - 1), classified.retryAfterMs ?? 0);
+      if (!classified.retryable || attempt >= maxAttempts || delayMs > maxDelayMs) throw err;
+      onRetry?.(classified, attempt, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
 }
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryEntry } from '../types';
+import { findGlossaryViolations, getGlossaryForPair, splitByViolations } from './glossaryUtils';
+
+const entry = (sourceTerm: string, targetTerm: string, extra: Partial<GlossaryEntry> = {}): GlossaryEntry => ({
+  id: sourceTerm, sourceLanguage: 'English', targetLanguage: 'French', sourceTerm, targetTerm, ...extra,
+});
+
+describe('findGlossaryViolations', () => {
+  const invoice = entry('invoice', 'facture');
+
+  it('accepts the required rendering whatever its case', () => {
+    expect(findGlossaryViolations('Send the Invoice today.', 'Envoyez la FACTURE aujourd’hui.', [invoice])).toEqual([]);
+  });
+
+  it('reports a term whose rendering is missing', () => {
+    expect(findGlossaryViolations('Send the invoice.', 'Envoyez la note.', [invoice])).toEqual([{ entry: invoice, expected: 'facture' }]);
+  });
+
+  it('matches whole words only', () => {
+    const cat = entry('cat', 'chat');
+    expect(findGlossaryViolations('Concatenate the files.', 'Concaténez les fichiers.', [cat])).toEqual([]);
+    expect(findGlossaryViolations('The cat sleeps.', 'Le chaton dort.', [cat])).toHaveLength(1);
+    expect(findGlossaryViolations('The cat sleeps.', 'Le chat dort.', [cat])).toEqual([]);
+  });
+
+  it('matches multi-word terms across any whitespace', () => {
+    const account = entry('user account', 'compte utilisateur');
+    expect(findGlossaryViolations('Open your user\naccount.', 'Ouvrez votre compte  utilisateur.', [account])).toEqual([]);
+    expect(findGlossaryViolations('Open your user settings.', 'Ouvrez vos réglages.', [account])).toEqual([]);
+    expect(findGlossaryViolations('Open your user account.', 'Ouvrez votre compte.', [account])).toHaveLength(1);
+  });
+
+  it('expects do-not-translate terms verbatim', () => {
+    const brand = entry('LinguaFlow', '', { doNotTranslate: true });
+    expect(findGlossaryViolations('Try LinguaFlow.', 'Essayez Lingua Flow.', [brand])).toEqual([{ entry: brand, expected: 'LinguaFlow' }]);
+    expect(findGlossaryViolations('Try LinguaFlow.', 'Essayez LinguaFlow.', [brand])).toEqual([]);
+  });
+
+  it('matches terms inside unspaced scripts', () => {
+    const meeting = entry('会議', 'réunion', { sourceLanguage: 'Japanese' });
+    expect(findGlossaryViolations('明日の会議は十時です。', 'La rencontre de demain est à dix heures.', [meeting])).toHaveLength(1);
+  });
+
+  it('ignores empty text', () => {
+    expect(findGlossaryViolations('invoice', '  ', [invoice])).toEqual([]);
+  });
+});
+
+describe('getGlossaryForPair', () => {
+  const entries = [entry('invoice', 'facture'), entry('facture', 'invoice', { sourceLanguage: 'French', targetLanguage: 'English' })];
+
+  it('keeps the reverse direction only when bidirectional', () => {
+    expect(getGlossaryForPair(entries, 'English', 'French')).toEqual([entries[0]]);
+    expect(getGlossaryForPair(entries, 'English', 'French', true)).toEqual(entries);
+  });
+});
+
+describe('splitByViolations', () => {
+  it('flags every whole-word occurrence of a leaked source term', () => {
+    const violations = findGlossaryViolations('The invoice.', 'Invoice, invoices et invoice.', [entry('invoice', 'facture')]);
+    expect(splitByViolations('Invoice, invoices et invoice.', violations)).toEqual([
+      { text: 'Invoice', flagged: true },
+      { text: ', invoices et ', flagged: false },
+      { text: 'invoice', flagged: true },
+      { text: '.', flagged: false },
+    ]);
+  });
+
+  it('leaves the text whole when nothing leaked', () => {
+    const brand = entry('LinguaFlow', '', { doNotTranslate: true });
+    const violations = findGlossaryViolations('Try LinguaFlow.', 'Essayez Lingua Flow.', [brand]);
+    expect(splitByViolations('Essayez Lingua Flow.', violations)).toEqual([{ text: 'Essayez Lingua Flow.', flagged: false }]);
+  });
+});
@@ -0,0 +1,96 @@
+import { GlossaryEntry, GlossaryViolation, Language } from '../types';
+
+const GLOSSARY_STORAGE_KEY = 'lingua_glossary';
+
+export function loadGlossary(): GlossaryEntry[] {
+  const saved = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to parse glossary', e);
+    return [];
+  }
+}
+
+export function saveGlossary(entries: GlossaryEntry[]) {
+  localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(entries));
+}
+
+export function getExpectedTerm(entry: GlossaryEntry): string {
+  return entry.doNotTranslate ? entry.sourceTerm : entry.targetTerm;
+}
+
+export function getGlossaryForPair(
+  entries: GlossaryEntry[],
+  sourceLanguage: Language,
+  targetLanguage: Language,
+  bidirectional = false,
+): GlossaryEntry[] {
+  return entries.filter(e =>
+    (e.sourceLanguage === sourceLanguage && e.targetLanguage === targetLanguage) ||
+    (bidirectional && e.sourceLanguage === targetLanguage && e.targetLanguage === sourceLanguage)
+  );
+}
+
+export function buildGlossaryInstruction(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+  const lines = entries.map(e => e.doNotTranslate
+    ? `- "${e.sourceTerm}" (${e.sourceLanguage}): do not translate, keep it exactly as written`
+    : `- "${e.sourceTerm}" (${e.sourceLanguage}) must be translated as "${e.targetTerm}" (${e.targetLanguage})`
+  );
+  return `Mandatory terminology:\n${lines.join('\n')}`;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only where the script separates words with spaces; Chinese, Japanese and Thai terms match anywhere.
+const isSpacedWordChar = (char: string) =>
+  /[\p{L}\p{M}\p{N}]/u.test(char) && !/[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}\p{sc=Thai}\p{sc=Lao}\p{sc=Khmer}\p{sc=Myanmar}]/u.test(char);
+
+// Case-insensitive; any run of whitespace matches between the words of a multi-word term.
+const termSource = (term: string) => {
+  const body = term.split(/\s+/).map(escapeRegExp).join('\\s+');
+  const before = isSpacedWordChar(term[0]) ? '(?<![\\p{L}\\p{M}\\p{N}])' : '';
+  const after = isSpacedWordChar(term[term.length - 1]) ? '(?![\\p{L}\\p{M}\\p{N}])' : '';
+  return `${before}${body}${after}`;
+};
+
+const containsTerm = (text: string, term: string) =>
+  term.trim() !== '' && new RegExp(termSource(term.trim()), 'iu').test(text);
+
+// A term is violated when it occurs in the source but its required rendering is missing from the output.
+export function findGlossaryViolations(
+  sourceText: string,
+  translatedText: string,
+  entries: GlossaryEntry[],
+): GlossaryViolation[] {
+  if (!sourceText.trim() || !translatedText.trim()) return [];
+  return entries
+    .filter(e => containsTerm(sourceText, e.sourceTerm))
+    .map(entry => ({ entry, expected: getExpectedTerm(entry) }))
+    .filter(v => !containsTerm(translatedText, v.expected));
+}
+
+// Splits text into plain and flagged segments, flagging source terms that leaked into the output untranslated.
+export function splitByViolations(
+  text: string,
+  violations: GlossaryViolation[],
+): Array<{ text: string; flagged: boolean }> {
+  const leaked = violations
+    .filter(v => !v.entry.doNotTranslate)
+    .map(v => v.entry.sourceTerm.trim())
+    .filter(term => containsTerm(text, term));
+  if (leaked.length === 0) return [{ text, flagged: false }];
+
+  const pattern = new RegExp(leaked.map(termSource).join('|'), 'giu');
+  const parts: Array<{ text: string; flagged: boolean }> = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) parts.push({ text: text.slice(last, match.index), flagged: false });
+    parts.push({ text: match[0], flagged: true });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), flagged: false });
+  return parts;
+}
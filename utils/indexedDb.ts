@@ -0,0 +1,42 @@
+// Thin promise wrappers around IndexedDB for the stores that keep binary data out of localStorage.
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+// Opens (and caches) a database whose stores all use an in-line `keyPath` of 'id'.
+export function openDatabase(name: string, version: number, stores: string[]): Promise<IDBDatabase> {
+  const cached = connections.get(name);
+  if (cached) return cached;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      for (const store of stores) {
+        if (!request.result.objectStoreNames.contains(store)) {
+          request.result.createObjectStore(store, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      connections.delete(name);
+      reject(request.error);
+    };
+  });
+  connections.set(name, opening);
+  return opening;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { guessLanguage } from './languageDetection';
+
+describe('guessLanguage', () => {
+  it('recognises languages by script', () => {
+    expect(guessLanguage('안녕하세요')).toBe('Korean');
+    expect(guessLanguage('नमस्ते, आप कैसे हैं?')).toBe('Hindi');
+    expect(guessLanguage('こんにちは、元気ですか')).toBe('Japanese');
+    expect(guessLanguage('你好，很高兴认识你')).toBe('Chinese');
+  });
+
+  it('tells apart languages sharing a script by common words', () => {
+    expect(guessLanguage('Bonjour, je vous remercie')).toBe('French');
+    expect(guessLanguage('Ich bin nicht müde und das ist gut')).toBe('German');
+    expect(guessLanguage('Hola, ¿que tal? Gracias')).toBe('Spanish');
+    expect(guessLanguage('آپ کیا کر رہے ہیں اور کہاں ہے')).toBe('Urdu');
+    expect(guessLanguage('ذهبت إلى المدرسة في الصباح')).toBe('Arabic');
+  });
+
+  it('falls back to English for unmarked Latin text', () => {
+    expect(guessLanguage('Xyzzy plugh')).toBe('English');
+  });
+
+  it('stays among the given candidates', () => {
+    expect(guessLanguage('Bonjour', ['English', 'Japanese'])).toBe('English');
+    expect(guessLanguage('会議', ['English', 'Japanese'])).toBe('Japanese');
+    expect(guessLanguage('Thanks', ['Korean', 'Japanese'])).toBe('Korean');
+  });
+});
@@ -0,0 +1,46 @@
+import type { Language } from '../types';
+import { ALL_LANGUAGES, getLanguagesByScript, WritingScript } from '../languages';
+
+const SCRIPT_PATTERNS: Array<{ script: WritingScript; pattern: RegExp }> = [
+  // Kana before Han: Japanese text mixes both.
+  { script: 'Kana', pattern: /[\u3040-\u30ff]/ },
+  { script: 'Hangul', pattern: /[\uac00-\ud7af]/ },
+  { script: 'Devanagari', pattern: /[\u0900-\u097f]/ },
+  { script: 'Arabic', pattern: /[\u0600-\u06ff]/ },
+  { script: 'Han', pattern: /[\u4e00-\u9fff]/ },
+];
+
+// Common function words used to tell apart languages that share a script.
+const MARKER_WORDS: Partial<Record<Language, string[]>> = {
+  French: ['le', 'la', 'les', 'est', 'et', 'je', 'vous', 'bonjour', 'merci'],
+  Italian: ['il', 'lo', 'gli', 'è', 'che', 'sono', 'ciao', 'grazie'],
+  Spanish: ['el', 'los', 'es', 'y', 'que', 'hola', 'gracias', 'usted'],
+  German: ['der', 'die', 'das', 'ist', 'und', 'ich', 'nicht', 'danke'],
+  English: ['the', 'is', 'and', 'you', 'hello', 'thanks'],
+  Urdu: ['ہے', 'کے', 'میں', 'اور', 'کیا'],
+  Arabic: ['في', 'من', 'هذا', 'على', 'إلى'],
+};
+
+// Offline best guess from writing script and common words. Used by the mock backend and to tag
+// live conversation turns, where the service reports no language. Restrict candidates when the
+// answer is known to be one of a few languages (e.g. the two sides of a conversation).
+export function guessLanguage(text: string, among: Language[] = ALL_LANGUAGES): Language {
+  const script = SCRIPT_PATTERNS.find(({ pattern }) => pattern.test(text))?.script || 'Latin';
+  // Japanese is written with Han characters too, so a Kana-less text may still be Japanese.
+  const scripts: WritingScript[] = script === 'Han' ? ['Han', 'Kana'] : [script];
+  const byScript = scripts.flatMap(getLanguagesByScript).filter(l => among.includes(l));
+  const candidates = byScript.length ? byScript : among;
+
+  const words = text.toLowerCase().split(/[^\p{L}\p{M}]+/u);
+  let best: Language = candidates.includes('English') ? 'English' : candidates[0];
+  let bestScore = 0;
+  for (const language of candidates) {
+    const markers = MARKER_WORDS[language] || [];
+    const score = words.filter(w => markers.includes(w)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return best;
+}
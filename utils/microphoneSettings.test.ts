@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { watchInputDevices } from './microphoneSettings';
+
+const input = (deviceId: string, groupId: string) => ({ kind: 'audioinput', deviceId, groupId, label: deviceId }) as MediaDeviceInfo;
+
+let devices: MediaDeviceInfo[] = [];
+const mediaDevices = Object.assign(new EventTarget(), { enumerateDevices: async () => devices });
+
+// A capture stream whose single track reports the given settings.
+function streamOn(settings: MediaTrackSettings) {
+  const track = Object.assign(new EventTarget(), { readyState: 'live', getSettings: () => settings });
+  return { getAudioTracks: () => [track] } as unknown as MediaStream;
+}
+
+// Swaps the device list and lets the watcher's async handler finish.
+async function deviceChange(next: MediaDeviceInfo[]) {
+  devices = next;
+  mediaDevices.dispatchEvent(new Event('devicechange'));
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('watchInputDevices', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { mediaDevices });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('with the system default selected', () => {
+    const laptop = [input('default', 'g-laptop'), input('laptop', 'g-laptop')];
+
+    it('ignores devices that come and go without changing the default', async () => {
+      devices = laptop;
+      const onChange = vi.fn();
+      const stop = watchInputDevices(streamOn({ deviceId: 'default', groupId: 'g-laptop' }), '', onChange);
+      await deviceChange([...laptop, input('webcam', 'g-webcam')]);
+      await deviceChange(laptop);
+      expect(onChange).not.toHaveBeenCalled();
+      stop();
+    });
+
+    it('restarts once when the default input moves to another device', async () => {
+      devices = laptop;
+      const onChange = vi.fn();
+      const stop = watchInputDevices(streamOn({ deviceId: 'default', groupId: 'g-laptop' }), '', onChange);
+      const headset = [input('default', 'g-headset'), input('laptop', 'g-laptop'), input('headset', 'g-headset')];
+      await deviceChange(headset);
+      await deviceChange(headset);
+      expect(onChange).toHaveBeenCalledOnce();
+      stop();
+    });
+
+    it('follows a default listed first, as browsers without a default entry do', async () => {
+      devices = [input('laptop', 'g-laptop')];
+      const onChange = vi.fn();
+      const stop = watchInputDevices(streamOn({ deviceId: 'laptop', groupId: 'g-laptop' }), '', onChange);
+      await deviceChange([input('laptop', 'g-laptop'), input('usb', 'g-usb')]);
+      expect(onChange).not.toHaveBeenCalled();
+      await deviceChange([input('usb', 'g-usb'), input('laptop', 'g-laptop')]);
+      expect(onChange).toHaveBeenCalledOnce();
+      stop();
+    });
+  });
+
+  describe('with a device selected', () => {
+    it('restarts when the device in use is unplugged', async () => {
+      devices = [input('laptop', 'g-laptop'), input('usb', 'g-usb')];
+      const onChange = vi.fn();
+      const stop = watchInputDevices(streamOn({ deviceId: 'usb', groupId: 'g-usb' }), 'usb', onChange);
+      await deviceChange([input('laptop', 'g-laptop'), input('usb', 'g-usb'), input('webcam', 'g-webcam')]);
+      expect(onChange).not.toHaveBeenCalled();
+      await deviceChange([input('laptop', 'g-laptop')]);
+      expect(onChange).toHaveBeenCalledOnce();
+      stop();
+    });
+
+    it('switches back when the selected device returns', async () => {
+      devices = [input('laptop', 'g-laptop')];
+      const onChange = vi.fn();
+      const stop = watchInputDevices(streamOn({ deviceId: 'laptop', groupId: 'g-laptop' }), 'usb', onChange);
+      await deviceChange([input('laptop', 'g-laptop'), input('usb', 'g-usb')]);
+      expect(onChange).toHaveBeenCalledOnce();
+      stop();
+    });
+  });
+
+  it('stops listening once disposed', async () => {
+    devices = [input('usb', 'g-usb')];
+    const onChange = vi.fn();
+    const stop = watchInputDevices(streamOn({ deviceId: 'usb', groupId: 'g-usb' }), 'usb', onChange);
+    stop();
+    await deviceChange([]);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+export interface MicrophoneSettings {
+  deviceId: string; // Empty for the system default input
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  gain: number; // Linear input gain applied after the browser's processing
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  gain: 1,
+};
+
+export const MICROPHONE_GAIN_RANGE = { min: 0, max: 3 };
+
+const MICROPHONE_STORAGE_KEY = 'lingua_microphone';
+
+export function loadMicrophoneSettings(): MicrophoneSettings {
+  const saved = localStorage.getItem(MICROPHONE_STORAGE_KEY);
+  if (!saved) return DEFAULT_MICROPHONE_SETTINGS;
+  try {
+    return { ...DEFAULT_MICROPHONE_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error('Failed to parse microphone settings', e);
+    return DEFAULT_MICROPHONE_SETTINGS;
+  }
+}
+
+export function saveMicrophoneSettings(settings: MicrophoneSettings) {
+  localStorage.setItem(MICROPHONE_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// The device is only preferred, so an unplugged headset falls back to the default input instead of failing.
+export function buildAudioConstraints(settings: MicrophoneSettings): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId ? { deviceId: { ideal: settings.deviceId } } : {}),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+export function openMicrophone(settings: MicrophoneSettings): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+}
+
+// Labels are empty until the page has been granted microphone access at least once.
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default' && d.deviceId !== 'communications');
+}
+
+// The input the system would pick now. Chrome lists it as a 'default' entry that shares the real device's
+// groupId; other browsers list it first.
+const defaultMicrophone = (inputs: MediaDeviceInfo[]): MediaDeviceInfo | undefined =>
+  inputs.find(d => d.deviceId === 'default') ?? inputs[0];
+
+// Calls onChange once when the capture stream should be re-acquired: its device was unplugged, the
+// selected device was plugged back in while we were on a fallback, or the system default changed while
+// the default is selected. Other device changes (headphones, a second camera) leave capture alone.
+export function watchInputDevices(stream: MediaStream, deviceId: string, onChange: () => void): () => void {
+  const track = stream.getAudioTracks()[0];
+  let fired = false;
+  const fire = () => {
+    if (fired) return;
+    fired = true;
+    onChange();
+  };
+
+  // Devices are matched on groupId as well, since Chrome keeps the 'default' id when the default moves.
+  const isInUse = (device: MediaDeviceInfo, settings: MediaTrackSettings) =>
+    settings.groupId ? device.groupId === settings.groupId : device.deviceId === settings.deviceId;
+
+  const handleDeviceChange = async () => {
+    if (!track || track.readyState === 'ended') return fire();
+    const settings = track.getSettings();
+    const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'audioinput');
+    const lost = !inputs.some(d => d.deviceId === settings.deviceId && isInUse(d, settings));
+    const selectedReturned = deviceId !== '' && settings.deviceId !== deviceId && inputs.some(d => d.deviceId === deviceId);
+    const systemDefault = deviceId === '' ? defaultMicrophone(inputs) : undefined;
+    const defaultChanged = !!systemDefault && !isInUse(systemDefault, settings);
+    if (lost || selectedReturned || defaultChanged) fire();
+  };
+
+  track?.addEventListener('ended', fire);
+  navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+  return () => {
+    fired = true;
+    track?.removeEventListener('ended', fire);
+    navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  };
+}
@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_OUTPUT_SETTINGS, loadOutputSettings, saveOutputSettings } from './outputRouting';
+
+const store = (value: unknown) => localStorage.setItem('lingua_live_output', JSON.stringify(value));
+
+describe('loadOutputSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the defaults when nothing is stored or the value is corrupt', () => {
+    expect(loadOutputSettings()).toEqual(DEFAULT_OUTPUT_SETTINGS);
+    localStorage.setItem('lingua_live_output', '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(loadOutputSettings()).toEqual(DEFAULT_OUTPUT_SETTINGS);
+  });
+
+  it('reads back saved settings', () => {
+    const settings = { mode: 'per-device' as const, deviceId: 'spk', listenerDeviceIds: { source: 'a', target: 'b' } };
+    saveOutputSettings(settings);
+    expect(loadOutputSettings()).toEqual(settings);
+  });
+
+  it('fills in listener devices missing from older or partial settings', () => {
+    store({ mode: 'per-device', deviceId: '' });
+    expect(loadOutputSettings().listenerDeviceIds).toEqual({ source: '', target: '' });
+
+    store({ mode: 'per-device', deviceId: '', listenerDeviceIds: { target: 'headset' } });
+    expect(loadOutputSettings().listenerDeviceIds).toEqual({ source: '', target: 'headset' });
+  });
+});
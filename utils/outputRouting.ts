@@ -0,0 +1,123 @@
+// Where live translation audio is played. In the split modes each party hears only the translation
+// into their own language: the "source" listener speaks the source language and hears translations
+// into it, the "target" listener likewise for the target language.
+export type OutputRoutingMode = 'single' | 'per-device' | 'stereo-split';
+export type Listener = 'source' | 'target';
+
+export const LISTENERS: Listener[] = ['source', 'target'];
+
+export const OUTPUT_ROUTING_MODES: Array<{ id: OutputRoutingMode; label: string; desc: string; icon: string }> = [
+  { id: 'single', label: 'One Output', desc: 'Everyone hears everything', icon: 'fa-solid fa-volume-high' },
+  { id: 'per-device', label: 'Per Device', desc: 'One output per listener', icon: 'fa-solid fa-headphones' },
+  { id: 'stereo-split', label: 'Stereo Split', desc: 'Left / right channel', icon: 'fa-solid fa-arrows-left-right' },
+];
+
+export interface OutputSettings {
+  mode: OutputRoutingMode;
+  deviceId: string; // Output for 'single' and 'stereo-split'; empty for the system default
+  listenerDeviceIds: Record<Listener, string>; // Outputs for 'per-device'
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  mode: 'single',
+  deviceId: '',
+  listenerDeviceIds: { source: '', target: '' },
+};
+
+// Stereo split sends the source-language listener's audio to the left channel.
+export const STEREO_CHANNEL: Record<Listener, 0 | 1> = { source: 0, target: 1 };
+
+const OUTPUT_STORAGE_KEY = 'lingua_live_output';
+
+export function loadOutputSettings(): OutputSettings {
+  const saved = localStorage.getItem(OUTPUT_STORAGE_KEY);
+  if (!saved) return DEFAULT_OUTPUT_SETTINGS;
+  try {
+    const parsed: Partial<OutputSettings> = JSON.parse(saved);
+    return {
+      ...DEFAULT_OUTPUT_SETTINGS,
+      ...parsed,
+      listenerDeviceIds: { ...DEFAULT_OUTPUT_SETTINGS.listenerDeviceIds, ...parsed.listenerDeviceIds },
+    };
+  } catch (e) {
+    console.error('Failed to parse output settings', e);
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+}
+
+export function saveOutputSettings(settings: OutputSettings) {
+  localStorage.setItem(OUTPUT_STORAGE_KEY, JSON.stringify(settings));
+}
+
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export async function listSpeakers(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audiooutput' && d.deviceId !== 'default' && d.deviceId !== 'communications');
+}
+
+export interface OutputRoute {
+  ctx: AudioContext;
+  destination: AudioNode;
+}
+
+export interface OutputRouter {
+  routeFor: (listener: Listener) => OutputRoute;
+  contexts: AudioContext[];
+  close: () => void;
+}
+
+async function createOutputContext(sampleRate: number, deviceId: string): Promise<AudioContext> {
+  const ctx: SinkAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+  if (deviceId && ctx.setSinkId) {
+    try {
+      await ctx.setSinkId(deviceId);
+    } catch (e) {
+      // An unplugged device should not stop the session; play through the default output instead.
+      console.warn('Could not select audio output, using the default device', e);
+    }
+  }
+  return ctx;
+}
+
+export async function createOutputRouter(settings: OutputSettings, sampleRate: number): Promise<OutputRouter> {
+  if (settings.mode === 'per-device') {
+    const source = await createOutputContext(sampleRate, settings.listenerDeviceIds.source);
+    const target = await createOutputContext(sampleRate, settings.listenerDeviceIds.target);
+    return {
+      routeFor: (listener) => {
+        const ctx = listener === 'source' ? source : target;
+        return { ctx, destination: ctx.destination };
+      },
+      contexts: [source, target],
+      close: () => { source.close(); target.close(); },
+    };
+  }
+
+  const ctx = await createOutputContext(sampleRate, settings.deviceId);
+  if (settings.mode === 'stereo-split') {
+    const merger = ctx.createChannelMerger(2);
+    merger.connect(ctx.destination);
+    const inputs = ([0, 1] as const).map(channel => {
+      const gain = ctx.createGain();
+      gain.channelCount = 1;
+      gain.channelCountMode = 'explicit';
+      gain.connect(merger, 0, channel);
+      return gain;
+    });
+    return {
+      routeFor: (listener) => ({ ctx, destination: inputs[STEREO_CHANNEL[listener]] }),
+      contexts: [ctx],
+      close: () => { ctx.close(); },
+    };
+  }
+
+  return {
+    routeFor: () => ({ ctx, destination: ctx.destination }),
+    contexts: [ctx],
+    close: () => { ctx.close(); },
+  };
+}
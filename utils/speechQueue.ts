@@ -0,0 +1,79 @@
+import { StretchPlayer } from './timeStretch';
+import { pcmToFloat32 } from './audioUtils';
+
+const LOOKAHEAD = 2; // Sentences synthesized ahead of the one being read
+
+export interface SpeechQueueCallbacks {
+  onSentence: (index: number) => void;
+  onEnd: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface SpeechQueue {
+  skipTo: (index: number) => void;
+  stop: () => void;
+}
+
+// Reads a text sentence by sentence through the player. The next sentences are synthesized while the
+// current one plays, so long texts start after the first sentence and continue without waiting.
+export function createSpeechQueue(
+  player: StretchPlayer,
+  count: number,
+  load: (index: number) => Promise<Int16Array>,
+  callbacks: SpeechQueueCallbacks,
+): SpeechQueue {
+  const loading = new Map<number, Promise<Int16Array>>();
+  let run = 0; // Bumped by every skip and stop; a sentence that sees a newer value is dropped
+
+  const fetch = (index: number) => {
+    let clip = loading.get(index);
+    if (!clip) {
+      clip = load(index);
+      loading.set(index, clip);
+      // A failed sentence is loaded again if it is reached; the error is reported only then.
+      clip.catch(() => loading.delete(index));
+    }
+    return clip;
+  };
+
+  const play = async (index: number) => {
+    const token = ++run;
+    player.onIdle = null;
+    player.clear();
+    callbacks.onSentence(index);
+    const clip = fetch(index);
+    for (let i = index + 1; i <= index + LOOKAHEAD && i < count; i++) fetch(i);
+
+    let pcm: Int16Array;
+    try {
+      pcm = await clip;
+    } catch (err) {
+      if (token === run) callbacks.onError(err);
+      return;
+    }
+    if (token !== run) return;
+
+    player.onIdle = () => {
+      if (token !== run) return;
+      if (index + 1 < count) {
+        play(index + 1);
+      } else {
+        player.onIdle = null;
+        callbacks.onEnd();
+      }
+    };
+    player.enqueue(pcmToFloat32(pcm));
+    player.flush();
+  };
+
+  play(0);
+
+  return {
+    skipTo: (index) => play(Math.max(0, Math.min(count - 1, index))),
+    stop: () => {
+      run++;
+      player.onIdle = null;
+      player.clear();
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { applySubtitleTranslations, getCueContext, parseSubtitles, serializeSubtitles, wrapSubtitleText } from './subtitleUtils';
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,500
+Hello there.
+
+2
+00:00:03,000 --> 00:00:05,000
+How are you
+doing today?
+`;
+
+const VTT = `\uFEFFWEBVTT
+
+NOTE made by hand
+
+intro
+00:01.000 --> 00:02.500 align:start
+Hello there.
+
+00:03.000 --> 00:05.000
+How are you?
+`;
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues with normalized timestamps', () => {
+    const track = parseSubtitles(SRT, 'srt');
+    expect(track.header).toBe('');
+    expect(track.cues).toEqual([
+      { identifier: '1', start: '00:00:01.000', end: '00:00:02.500', settings: '', text: 'Hello there.' },
+      { identifier: '2', start: '00:00:03.000', end: '00:00:05.000', settings: '', text: 'How are you\ndoing today?' },
+    ]);
+  });
+
+  it('keeps the WebVTT header, cue ids and settings', () => {
+    const track = parseSubtitles(VTT, 'vtt');
+    expect(track.header).toBe('WEBVTT\n\nNOTE made by hand');
+    expect(track.cues[0]).toEqual({ identifier: 'intro', start: '00:00:01.000', end: '00:00:02.500', settings: 'align:start', text: 'Hello there.' });
+    expect(track.cues[1].identifier).toBe('');
+  });
+});
+
+describe('serializeSubtitles', () => {
+  it('round-trips SRT', () => {
+    expect(serializeSubtitles(parseSubtitles(SRT, 'srt'))).toBe(SRT);
+  });
+
+  it('converts between formats', () => {
+    const vtt = serializeSubtitles(parseSubtitles(SRT, 'srt'), 'vtt');
+    expect(vtt.startsWith('WEBVTT\n\n00:00:01.000 --> 00:00:02.500\nHello there.')).toBe(true);
+
+    const srt = serializeSubtitles(parseSubtitles(VTT, 'vtt'), 'srt');
+    expect(srt).toBe('1\n00:00:01,000 --> 00:00:02,500\nHello there.\n\n2\n00:00:03,000 --> 00:00:05,000\nHow are you?\n');
+  });
+});
+
+describe('wrapSubtitleText', () => {
+  it('wraps on spaces within the line limit', () => {
+    expect(wrapSubtitleText('The quick brown fox jumps over the lazy dog', { maxCharsPerLine: 20, maxLines: 3 }))
+      .toEqual({ text: 'The quick brown fox\njumps over the lazy\ndog', overflow: false });
+  });
+
+  it('breaks text without spaces at the character limit', () => {
+    expect(wrapSubtitleText('今日はとても良い天気ですね', { maxCharsPerLine: 5, maxLines: 3 }))
+      .toEqual({ text: '今日はとて\nも良い天気\nですね', overflow: false });
+  });
+
+  it('flags text that needs more lines than allowed', () => {
+    expect(wrapSubtitleText('one two three four', { maxCharsPerLine: 8, maxLines: 1 }).overflow).toBe(true);
+  });
+});
+
+describe('applySubtitleTranslations', () => {
+  it('wraps translated cues, keeps untranslated ones and counts overflows', () => {
+    const track = parseSubtitles(SRT, 'srt');
+    const { track: translated, overflowCount } = applySubtitleTranslations(
+      track,
+      ['Bonjour à vous tous, mes amis.', undefined],
+      { maxCharsPerLine: 12, maxLines: 2 },
+    );
+    expect(translated.cues[0].text).toBe('Bonjour à\nvous tous,\nmes amis.');
+    expect(translated.cues[1].text).toBe('How are you\ndoing today?');
+    expect(overflowCount).toBe(1);
+  });
+});
+
+describe('getCueContext', () => {
+  it('returns neighbouring cues on a single line', () => {
+    const track = parseSubtitles(SRT, 'srt');
+    expect(getCueContext(track, 0)).toEqual({ before: [], after: ['How are you doing today?'] });
+    expect(getCueContext(track, 1)).toEqual({ before: ['Hello there.'], after: [] });
+  });
+});
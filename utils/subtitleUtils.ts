@@ -0,0 +1,129 @@
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  identifier: string; // SRT sequence number or optional WebVTT cue id
+  start: string; // Normalized to hh:mm:ss.mmm
+  end: string;
+  settings: string; // WebVTT cue settings such as "align:start", empty for SRT
+  text: string;
+}
+
+export interface SubtitleTrack {
+  format: SubtitleFormat;
+  header: string; // WebVTT header block (WEBVTT line, STYLE/NOTE blocks), empty for SRT
+  cues: SubtitleCue[];
+}
+
+export interface SubtitleLimits {
+  maxCharsPerLine: number;
+  maxLines: number;
+}
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)$/;
+
+function normalizeTimestamp(value: string): string {
+  const [clock, fraction = '0'] = value.replace(',', '.').split('.');
+  const parts = clock.split(':').map(p => p.padStart(2, '0'));
+  while (parts.length < 3) parts.unshift('00');
+  return `${parts.join(':')}.${fraction.padEnd(3, '0').slice(0, 3)}`;
+}
+
+const formatTimestamp = (value: string, format: SubtitleFormat) =>
+  format === 'srt' ? value.replace('.', ',') : value;
+
+export function parseSubtitles(content: string, format: SubtitleFormat): SubtitleTrack {
+  const blocks = content.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '').split(/\n[ \t]*\n+/);
+  const headerBlocks: string[] = [];
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line, i, all) => i < all.length - 1 || line.trim() !== '');
+    const timingIndex = lines.findIndex(l => TIMING_LINE.test(l));
+    if (timingIndex < 0) {
+      // Everything before the first cue (WEBVTT line, STYLE, NOTE, REGION) is kept verbatim.
+      if (format === 'vtt' && cues.length === 0 && block.trim()) headerBlocks.push(block.trim());
+      continue;
+    }
+
+    const [, start, end, settings] = lines[timingIndex].match(TIMING_LINE)!;
+    cues.push({
+      identifier: lines.slice(0, timingIndex).join(' ').trim(),
+      start: normalizeTimestamp(start),
+      end: normalizeTimestamp(end),
+      settings: format === 'vtt' ? settings.trim() : '',
+      text: lines.slice(timingIndex + 1).join('\n').trim(),
+    });
+  }
+
+  return { format, header: headerBlocks.join('\n\n'), cues };
+}
+
+export function serializeSubtitles(track: SubtitleTrack, format: SubtitleFormat = track.format): string {
+  const cues = track.cues.map((cue, i) => {
+    const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`;
+    if (format === 'srt') {
+      return `${i + 1}\n${timing}\n${cue.text}`;
+    }
+    const id = track.format === 'vtt' ? cue.identifier : '';
+    return `${id ? id + '\n' : ''}${timing}${cue.settings ? ' ' + cue.settings : ''}\n${cue.text}`;
+  });
+
+  if (format === 'srt') return cues.join('\n\n') + '\n';
+  const header = track.format === 'vtt' && track.header ? track.header : 'WEBVTT';
+  return `${header}\n\n${cues.join('\n\n')}\n`;
+}
+
+// Greedy line wrapping on spaces; text without spaces (CJK) is broken at the character limit.
+// Flags overflow when the result still needs more lines than allowed.
+export function wrapSubtitleText(text: string, { maxCharsPerLine, maxLines }: SubtitleLimits): { text: string; overflow: boolean } {
+  const flat = text.replace(/\s*\n\s*/g, ' ').trim();
+  const chars = Array.from(flat);
+  const hasSpaces = flat.includes(' ');
+  const lines: string[] = [];
+
+  if (hasSpaces) {
+    let current = '';
+    for (const word of flat.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (Array.from(candidate).length > maxCharsPerLine && current) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) lines.push(current);
+  } else {
+    for (let i = 0; i < chars.length; i += maxCharsPerLine) {
+      lines.push(chars.slice(i, i + maxCharsPerLine).join(''));
+    }
+  }
+
+  const overflow = lines.length > maxLines || lines.some(l => Array.from(l).length > maxCharsPerLine);
+  return { text: lines.join('\n'), overflow };
+}
+
+// Applies translations cue-by-cue; untranslated cues keep their source text and original line breaks.
+export function applySubtitleTranslations(
+  track: SubtitleTrack,
+  translations: Array<string | undefined>,
+  limits: SubtitleLimits,
+): { track: SubtitleTrack; overflowCount: number } {
+  let overflowCount = 0;
+  const cues = track.cues.map((cue, i) => {
+    const translated = translations[i];
+    if (translated === undefined) return cue;
+    const wrapped = wrapSubtitleText(translated, limits);
+    if (wrapped.overflow) overflowCount++;
+    return { ...cue, text: wrapped.text };
+  });
+  return { track: { ...track, cues }, overflowCount };
+}
+
+export function getCueContext(track: SubtitleTrack, index: number, radius = 2): { before: string[]; after: string[] } {
+  const flatten = (cue: SubtitleCue) => cue.text.replace(/\s*\n\s*/g, ' ');
+  return {
+    before: track.cues.slice(Math.max(0, index - radius), index).map(flatten),
+    after: track.cues.slice(index + 1, index + 1 + radius).map(flatten),
+  };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { WORKLET_SOURCE, createTimeStretcher } from './timeStretch';
+
+const SAMPLE_RATE = 24000;
+
+const sine = (frequency: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+const concat = (parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+// Feeds the input in render-sized chunks and flushes at the end, as the playback worklet does.
+function stretch(input: Float32Array, rate: number, chunk = 2048): Float32Array {
+  const stretcher = createTimeStretcher(SAMPLE_RATE);
+  const parts: Float32Array[] = [];
+  for (let i = 0; i < input.length; i += chunk) parts.push(stretcher.process(input.subarray(i, i + chunk), rate));
+  parts.push(stretcher.flush(rate));
+  return concat(parts);
+}
+
+// Frequency estimated from upward zero crossings over the steady middle of the signal.
+function frequencyOf(samples: Float32Array): number {
+  const middle = samples.subarray(Math.floor(samples.length * 0.2), Math.floor(samples.length * 0.8));
+  let crossings = 0;
+  for (let i = 1; i < middle.length; i++) if (middle[i - 1] < 0 && middle[i] >= 0) crossings++;
+  return (crossings * SAMPLE_RATE) / middle.length;
+}
+
+describe('createTimeStretcher', () => {
+  it('reproduces the input at normal speed after the first half frame fades in', () => {
+    const input = sine(220, 1);
+    const output = stretch(input, 1);
+    const fadeIn = Math.round(SAMPLE_RATE * 0.015);
+    expect(output.length).toBeGreaterThanOrEqual(input.length);
+    let maxError = 0;
+    for (let i = fadeIn; i < input.length; i++) maxError = Math.max(maxError, Math.abs(output[i] - input[i]));
+    expect(maxError).toBeLessThan(1e-4);
+  });
+
+  it.each([0.75, 1.25, 1.5])('changes the duration but not the pitch at rate %s', rate => {
+    const input = sine(220, 2);
+    const output = stretch(input, rate);
+    expect(output.length / SAMPLE_RATE).toBeCloseTo(2 / rate, 1);
+    expect(frequencyOf(output)).toBeCloseTo(220, -1);
+  });
+
+  it('gives the same result however the input is chunked', () => {
+    const input = sine(330, 0.5);
+    const whole = stretch(input, 1.25, input.length);
+    const chunked = stretch(input, 1.25, 128);
+    expect(chunked.length).toBe(whole.length);
+    for (let i = 0; i < whole.length; i++) expect(chunked[i]).toBeCloseTo(whole[i], 5);
+  });
+
+  it('starts over after a reset', () => {
+    const stretcher = createTimeStretcher(SAMPLE_RATE);
+    stretcher.process(sine(220, 0.2), 1);
+    stretcher.reset();
+    expect(stretcher.flush(1)).toHaveLength(0);
+  });
+});
+
+// Runs the playback worklet's processor outside an AudioContext, one 128-sample render quantum at a time.
+function createWorkletHarness(rate = 1) {
+  let Processor: any;
+  const messages: Array<{ type: string }> = [];
+  class FakeAudioWorkletProcessor {
+    port = { onmessage: null as ((e: { data: unknown }) => void) | null, postMessage: (m: { type: string }) => messages.push(m) };
+  }
+  new Function('AudioWorkletProcessor', 'registerProcessor', 'sampleRate', 'currentTime', WORKLET_SOURCE)(
+    FakeAudioWorkletProcessor, (_: string, ctor: unknown) => { Processor = ctor; }, SAMPLE_RATE, 0,
+  );
+  const processor = new Processor({ processorOptions: { rate } });
+  return {
+    messages,
+    send: (data: unknown) => processor.port.onmessage({ data }),
+    render: (quanta: number) => {
+      const parts: Float32Array[] = [];
+      for (let i = 0; i < quanta; i++) {
+        const out = new Float32Array(128);
+        processor.process([], [[out]]);
+        parts.push(out);
+      }
+      return concat(parts);
+    },
+  };
+}
+
+describe('stretch player worklet', () => {
+  const energy = (samples: Float32Array) => samples.reduce((sum, s) => sum + s * s, 0);
+
+  it('plays out the held-back end of a chunk when the queue runs dry, without waiting for a flush', () => {
+    const player = createWorkletHarness();
+    const chunk = sine(220, 0.2);
+    player.send({ type: 'enqueue', samples: chunk, startAt: 0 });
+    const output = player.render(Math.ceil((chunk.length + SAMPLE_RATE * 0.1) / 128));
+
+    // Everything but the first half frame's fade-in comes out as it went in.
+    const fadeIn = Math.round(SAMPLE_RATE * 0.015);
+    let maxError = 0;
+    for (let i = fadeIn; i < chunk.length; i++) maxError = Math.max(maxError, Math.abs(output[i] - chunk[i]));
+    expect(maxError).toBeLessThan(1e-4);
+    expect(player.messages).toEqual([{ type: 'idle' }]);
+  });
+
+  it('plays audio that arrives after the queue ran dry as a new stream', () => {
+    const player = createWorkletHarness();
+    const chunk = sine(220, 0.1);
+    const quanta = Math.ceil((SAMPLE_RATE * 0.2) / 128);
+    player.send({ type: 'enqueue', samples: chunk, startAt: 0 });
+    player.render(quanta);
+    player.send({ type: 'enqueue', samples: chunk, startAt: 0 });
+    const second = player.render(quanta);
+
+    expect(energy(second)).toBeGreaterThan(0.9 * energy(chunk));
+    expect(player.messages).toEqual([{ type: 'idle' }, { type: 'idle' }]);
+  });
+
+  it('stays silent after a clear', () => {
+    const player = createWorkletHarness();
+    player.send({ type: 'enqueue', samples: sine(220, 0.2), startAt: 0 });
+    player.render(4);
+    player.send({ type: 'clear' });
+    expect(energy(player.render(40))).toBe(0);
+    expect(player.messages).toEqual([]);
+  });
+});
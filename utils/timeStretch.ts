@@ -0,0 +1,257 @@
+// Speech-rate playback that keeps the voice's pitch. Changing an AudioBufferSourceNode's playbackRate
+// resamples the audio, so faster speech also sounds higher; instead the audio is time-stretched with
+// WSOLA (waveform-similarity overlap-add) on the audio rendering thread and played at its own rate.
+
+export interface TimeStretcher {
+  // Feeds mono input and returns the stretched output that is ready; the rest waits for more input.
+  process: (input: Float32Array, rate: number) => Float32Array;
+  // Ends the stream: returns everything still buffered and starts over for the next one.
+  flush: (rate: number) => Float32Array;
+  reset: () => void;
+}
+
+// Streaming WSOLA. Output is built from 30 ms Hann-windowed frames overlapped by half. Each frame is
+// read from the input near where the rate says it should be, shifted by up to 10 ms to the spot that
+// best continues the previous frame's waveform, so overlapping frames add up without phasing.
+//
+// This function is also inlined into the playback AudioWorklet via toString(), so it must not
+// reference anything outside its own body.
+export function createTimeStretcher(sampleRate: number): TimeStretcher {
+  const frame = 2 * Math.round(sampleRate * 0.015);
+  const hop = frame / 2;
+  const tolerance = Math.round(sampleRate * 0.01);
+  const CORRELATION_STEP = 4; // Compare every 4th sample; plenty for speech and 4x cheaper
+  const hann = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+
+  let input = new Float32Array(0);
+  let offset = 0; // Absolute input position of input[0]
+  let nominal = 0; // Absolute input position where the next frame would start at exactly this rate
+  let previous = -1; // Absolute start of the previous frame, -1 before the first one
+  let tail = new Float32Array(hop); // Second half of the previous windowed frame
+  let end = Infinity; // Absolute end of the real input while flushing; frames past it are padding
+
+  const bestStart = (center: number) => {
+    const natural = previous + hop - offset;
+    let best = center;
+    let bestScore = -Infinity;
+    for (let candidate = Math.max(offset, center - tolerance); candidate <= center + tolerance; candidate++) {
+      const c = candidate - offset;
+      let correlation = 0;
+      let energy = 1e-9;
+      for (let n = 0; n < hop; n += CORRELATION_STEP) {
+        correlation += input[natural + n] * input[c + n];
+        energy += input[c + n] * input[c + n];
+      }
+      const score = correlation / Math.sqrt(energy);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  };
+
+  const run = (rate: number) => {
+    const frames: Float32Array[] = [];
+    for (;;) {
+      const center = Math.round(nominal);
+      if (center > end) break;
+      // At normal speed the natural continuation is exactly the nominal position, so no search is needed.
+      const search = previous >= 0 && rate !== 1;
+      if ((search ? center + tolerance : center) + frame > offset + input.length) break;
+
+      const start = search ? bestStart(center) : center;
+      const out = new Float32Array(hop);
+      const s = start - offset;
+      for (let n = 0; n < hop; n++) {
+        out[n] = tail[n] + hann[n] * input[s + n];
+        tail[n] = hann[hop + n] * input[s + hop + n];
+      }
+      frames.push(out);
+      previous = start;
+      nominal += hop * rate;
+    }
+
+    const keepFrom = Math.min(Math.round(nominal) - tolerance, previous + hop);
+    const drop = Math.max(0, Math.min(keepFrom - offset, input.length));
+    if (drop > 0) {
+      input = input.slice(drop);
+      offset += drop;
+    }
+
+    const output = new Float32Array(frames.length * hop);
+    frames.forEach((f, i) => output.set(f, i * hop));
+    return output;
+  };
+
+  const append = (samples: Float32Array) => {
+    const next = new Float32Array(input.length + samples.length);
+    next.set(input);
+    next.set(samples, input.length);
+    input = next;
+  };
+
+  const reset = () => {
+    input = new Float32Array(0);
+    offset = 0;
+    nominal = 0;
+    previous = -1;
+    tail = new Float32Array(hop);
+    end = Infinity;
+  };
+
+  return {
+    process(samples, rate) {
+      append(samples);
+      return run(rate);
+    },
+    flush(rate) {
+      if (previous < 0 && input.length === 0) return new Float32Array(0);
+      end = offset + input.length;
+      append(new Float32Array(frame + 2 * tolerance + Math.ceil(hop * rate)));
+      const body = run(rate);
+      const output = new Float32Array(body.length + hop);
+      output.set(body);
+      output.set(tail, body.length);
+      reset();
+      return output;
+    },
+    reset,
+  };
+}
+
+const PROCESSOR_NAME = 'stretch-player';
+
+// Plays queued chunks through the stretcher. A chunk waits for its start time when the player is idle,
+// otherwise it follows the previous one directly, so a stream of chunks plays without gaps. Chunks are
+// stretched in small slices just before they play, which bounds the work per render quantum and lets a
+// rate change apply to audio that is already queued. The stretcher holds back about 50 ms of input
+// until more arrives; when the queue runs dry mid-stream that audio is flushed and played at once, so a
+// pause in a live stream does not keep the end of the last chunk waiting for the end of the turn.
+export const WORKLET_SOURCE = `
+const createTimeStretcher = ${createTimeStretcher.toString()};
+const SLICE = 2048;
+
+class StretchPlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.rate = options.processorOptions.rate;
+    this.stretcher = createTimeStretcher(sampleRate);
+    this.chunks = [];
+    this.ready = [];
+    this.readOffset = 0;
+    this.playing = false;
+    this.port.onmessage = ({ data }) => {
+      if (data.type === 'enqueue') {
+        for (let i = 0; i < data.samples.length; i += SLICE) {
+          this.chunks.push({ samples: data.samples.subarray(i, i + SLICE), startAt: i === 0 ? data.startAt : 0 });
+        }
+      }
+      else if (data.type === 'flush') this.chunks.push({ flush: true, startAt: 0 });
+      else if (data.type === 'rate') this.rate = data.rate;
+      else if (data.type === 'clear') this.clear();
+    };
+  }
+
+  clear() {
+    this.chunks = [];
+    this.ready = [];
+    this.readOffset = 0;
+    this.playing = false; // Cleared audio is not reported as finished
+    this.stretcher.reset();
+  }
+
+  process(inputs, outputs) {
+    const out = outputs[0][0];
+    let written = 0;
+    while (written < out.length) {
+      if (this.ready.length > 0) {
+        const buffer = this.ready[0];
+        const n = Math.min(out.length - written, buffer.length - this.readOffset);
+        out.set(buffer.subarray(this.readOffset, this.readOffset + n), written);
+        written += n;
+        this.readOffset += n;
+        if (this.readOffset === buffer.length) {
+          this.ready.shift();
+          this.readOffset = 0;
+        }
+        continue;
+      }
+      const next = this.chunks[0];
+      if (!next && (this.playing || written > 0)) {
+        const held = this.stretcher.flush(this.rate);
+        if (held.length > 0) {
+          this.ready.push(held);
+          continue;
+        }
+      }
+      if (!next || (!this.playing && written === 0 && currentTime < next.startAt)) break;
+      this.chunks.shift();
+      const produced = next.flush ? this.stretcher.flush(this.rate) : this.stretcher.process(next.samples, this.rate);
+      if (produced.length > 0) this.ready.push(produced);
+    }
+
+    const playing = written > 0;
+    if (this.playing && !playing && this.chunks.length === 0) this.port.postMessage({ type: 'idle' });
+    this.playing = playing;
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', StretchPlayerProcessor);
+`;
+
+let moduleUrl: string | null = null;
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorkletModule(ctx: BaseAudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  if (!moduleUrl) {
+    moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  await ctx.audioWorklet.addModule(moduleUrl);
+  loadedContexts.add(ctx);
+}
+
+export interface StretchPlayer {
+  // Queues mono samples at the context's rate; startAt (context time) applies when nothing is playing.
+  enqueue: (samples: Float32Array, startAt?: number) => void;
+  // Marks the end of a stream so its last few milliseconds are played without waiting for the queue to
+  // run dry.
+  flush: () => void;
+  setRate: (rate: number) => void;
+  clear: () => void;
+  // Called when queued audio has finished playing.
+  onIdle: (() => void) | null;
+  disconnect: () => void;
+}
+
+export async function createStretchPlayer(ctx: BaseAudioContext, destination: AudioNode, rate: number): Promise<StretchPlayer> {
+  await ensureWorkletModule(ctx);
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: { rate },
+  });
+  node.connect(destination);
+
+  const player: StretchPlayer = {
+    enqueue: (samples, startAt = 0) => node.port.postMessage({ type: 'enqueue', samples, startAt }),
+    flush: () => node.port.postMessage({ type: 'flush' }),
+    setRate: (value) => node.port.postMessage({ type: 'rate', rate: value }),
+    clear: () => node.port.postMessage({ type: 'clear' }),
+    onIdle: null,
+    disconnect: () => {
+      node.port.onmessage = null;
+      node.port.close();
+      node.disconnect();
+    },
+  };
+  node.port.onmessage = (e: MessageEvent<{ type: string }>) => {
+    if (e.data.type === 'idle') player.onIdle?.();
+  };
+  return player;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceHistoryItem } from '../types';
+import { conversationFileName, exportTranscript } from './transcriptExport';
+
+const item: VoiceHistoryItem = {
+  id: 'conversation-1',
+  timestamp: new Date(2025, 2, 14, 9, 30).getTime(),
+  sourceLanguage: 'English',
+  targetLanguage: 'Arabic',
+  voice: 'Charon',
+  messages: [
+    { original: 'Is 2 < 3 & "true"?', translation: 'هل 2 < 3؟', sourceLanguage: 'English', targetLanguage: 'Arabic', timestamp: new Date(2025, 2, 14, 9, 31).getTime() },
+    { original: 'نعم', translation: '', sourceLanguage: 'Arabic', targetLanguage: 'English' },
+  ],
+};
+
+const exported = (...args: Parameters<typeof exportTranscript>) => {
+  const { blob, fileName } = exportTranscript(...args);
+  return blob.text().then(text => ({ text, fileName, type: blob.type }));
+};
+
+describe('exportTranscript', () => {
+  it('labels plain text lines with the speaker and the interpreter', async () => {
+    const { text, fileName, type } = await exported(item, 'text');
+    expect(fileName).toBe('conversation-en-ar-2025-03-14-0930.txt');
+    expect(type).toBe('text/plain;charset=utf-8');
+    expect(text).toContain('Languages: English ↔ Arabic');
+    expect(text).toContain('English speaker: Is 2 < 3 & "true"?\nInterpreter: هل 2 < 3؟');
+    // A turn without a translation has no interpreter line.
+    expect(text).toMatch(/Arabic speaker: نعم\n\n?$/);
+  });
+
+  it('quotes each line under its speaker in Markdown', async () => {
+    const { text, fileName } = await exported(item, 'markdown');
+    expect(fileName).toBe('conversation-en-ar-2025-03-14-0930.md');
+    expect(text).toContain('- **Voice:** Charon');
+    expect(text).toContain('- **Turns:** 2');
+    expect(text).toContain('*English speaker:*\n> Is 2 < 3 & "true"?\n\n*Interpreter:*\n> هل 2 < 3؟');
+    expect(text).toContain('(Arabic → English)');
+  });
+
+  it('exports structured turns as JSON', async () => {
+    const { text, fileName } = await exported(item, 'json');
+    expect(fileName.endsWith('.json')).toBe(true);
+    const json = JSON.parse(text);
+    expect(json).toMatchObject({ id: 'conversation-1', sourceLanguage: 'English', targetLanguage: 'Arabic', voice: 'Charon' });
+    expect(json.turns).toEqual([
+      expect.objectContaining({ speaker: 'English speaker', original: 'Is 2 < 3 & "true"?', translation: 'هل 2 < 3؟', translatedBy: 'Interpreter' }),
+      expect.objectContaining({ speaker: 'Arabic speaker', original: 'نعم', translation: '', timestamp: null }),
+    ]);
+  });
+
+  it('escapes user text in bilingual HTML and sets each cell’s direction', async () => {
+    const { text, fileName } = await exported(item, 'html');
+    expect(fileName.endsWith('.html')).toBe(true);
+    expect(text).toContain('<td dir="ltr" lang="en">');
+    expect(text).toContain('Is 2 &lt; 3 &amp; &quot;true&quot;?</td>');
+    expect(text).toContain('<td dir="rtl" lang="ar"><div class="meta">Interpreter (Arabic)</div>هل 2 &lt; 3؟</td>');
+    expect(text).not.toContain('2 < 3');
+  });
+
+  it('escapes markup that could run script in the HTML export', async () => {
+    const hostile: VoiceHistoryItem = {
+      ...item,
+      messages: [{ original: '<script>alert(1)</script>', translation: '<img src=x onerror=alert(1)>', sourceLanguage: 'English', targetLanguage: 'Arabic' }],
+    };
+    const { text } = await exported(hostile, 'html');
+    expect(text).not.toMatch(/<script|<img/);
+    expect(text).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+
+  it('keeps only the turns involving the chosen language', async () => {
+    const { text } = await exported({ ...item, messages: [...item.messages, { original: 'Hallo', translation: 'Hello', sourceLanguage: 'German', targetLanguage: 'English' }] }, 'json', 'Arabic');
+    expect(JSON.parse(text).turns).toHaveLength(2);
+  });
+});
+
+describe('conversationFileName', () => {
+  it('leaves out the language pair when the conversation has none', () => {
+    expect(conversationFileName({ ...item, sourceLanguage: undefined }, 'wav')).toBe('conversation-2025-03-14-0930.wav');
+  });
+});
@@ -0,0 +1,159 @@
+import { Language, VoiceHistoryItem, VoiceTurn } from '../types';
+import { getLanguageInfo } from '../languages';
+import { turnInvolves } from './voiceTurns';
+
+export type TranscriptFormat = 'markdown' | 'text' | 'json' | 'html';
+
+export const TRANSCRIPT_FORMATS: Array<{ id: TranscriptFormat; label: string; icon: string }> = [
+  { id: 'markdown', label: 'Markdown', icon: 'fa-brands fa-markdown' },
+  { id: 'text', label: 'Plain Text', icon: 'fa-solid fa-file-lines' },
+  { id: 'json', label: 'JSON', icon: 'fa-solid fa-code' },
+  { id: 'html', label: 'Bilingual HTML (PDF-ready)', icon: 'fa-solid fa-file-pdf' },
+];
+
+// The original is labelled with the person who spoke it, told apart by their language; the translation
+// is always the interpreter's.
+const INTERPRETER_LABEL = 'Interpreter';
+const speakerLabel = (turn: VoiceTurn) => `${turn.sourceLanguage} speaker`;
+
+const FILE_INFO: Record<TranscriptFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  text: { extension: 'txt', mimeType: 'text/plain;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+};
+
+const formatTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '';
+
+const languagePair = (item: VoiceHistoryItem) =>
+  item.sourceLanguage && item.targetLanguage ? `${item.sourceLanguage} ↔ ${item.targetLanguage}` : 'Unknown';
+
+const turnHeading = (turn: VoiceTurn) =>
+  [formatTime(turn.timestamp), speakerLabel(turn), `(${turn.sourceLanguage} → ${turn.targetLanguage})`].filter(Boolean).join(' ');
+
+// Original then translation, each with its speaker, leaving out a side the service did not transcribe.
+const turnLines = (turn: VoiceTurn) => [
+  ...(turn.original ? [{ speaker: speakerLabel(turn), text: turn.original }] : []),
+  ...(turn.translation ? [{ speaker: INTERPRETER_LABEL, text: turn.translation }] : []),
+];
+
+const quote = (text: string) => text.split('\n').map(l => `> ${l}`).join('\n');
+
+function toMarkdown(item: VoiceHistoryItem): string {
+  const lines = [
+    `# Conversation — ${new Date(item.timestamp).toLocaleString()}`,
+    '',
+    `- **Languages:** ${languagePair(item)}`,
+    ...(item.voice ? [`- **Voice:** ${item.voice}`] : []),
+    `- **Turns:** ${item.messages.length}`,
+    '',
+  ];
+  for (const turn of item.messages) {
+    lines.push(`**${turnHeading(turn)}**`, '', ...turnLines(turn).flatMap(line => [`*${line.speaker}:*`, quote(line.text), '']));
+  }
+  return lines.join('\n');
+}
+
+function toPlainText(item: VoiceHistoryItem): string {
+  const lines = [
+    `Conversation — ${new Date(item.timestamp).toLocaleString()}`,
+    `Languages: ${languagePair(item)}`,
+    '',
+  ];
+  for (const turn of item.messages) {
+    lines.push(`[${turnHeading(turn)}]`, ...turnLines(turn).map(line => `${line.speaker}: ${line.text}`), '');
+  }
+  return lines.join('\n');
+}
+
+function toJson(item: VoiceHistoryItem): string {
+  return JSON.stringify({
+    id: item.id,
+    startedAt: new Date(item.timestamp).toISOString(),
+    sourceLanguage: item.sourceLanguage ?? null,
+    targetLanguage: item.targetLanguage ?? null,
+    voice: item.voice ?? null,
+    turns: item.messages.map(turn => ({
+      speaker: speakerLabel(turn),
+      sourceLanguage: turn.sourceLanguage,
+      targetLanguage: turn.targetLanguage,
+      timestamp: turn.timestamp ? new Date(turn.timestamp).toISOString() : null,
+      original: turn.original,
+      translation: turn.translation,
+      translatedBy: INTERPRETER_LABEL,
+    })),
+  }, null, 2);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The meta line is Latin, so dir="auto" would misjudge RTL text; use the tagged language instead.
+const htmlCell = (text: string, language: Language, meta: string) => {
+  const info = getLanguageInfo(language);
+  return `<td dir="${info.direction}" lang="${info.code}"><div class="meta">${escapeHtml(meta)}</div>${escapeHtml(text)}</td>`;
+};
+
+// One row per exchange: the original next to its translation.
+function toBilingualHtml(item: VoiceHistoryItem): string {
+  const rows = item.messages.map(turn =>
+    `<tr>${htmlCell(turn.original, turn.sourceLanguage, turnHeading(turn))}${htmlCell(turn.translation, turn.targetLanguage, `${INTERPRETER_LABEL} (${turn.targetLanguage})`)}</tr>`
+  );
+
+  const title = `Conversation — ${new Date(item.timestamp).toLocaleString()}`;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: 'Inter', system-ui, sans-serif; color: #1e293b; margin: 2rem; }
+  h1 { font-size: 1.25rem; margin-bottom: 0.25rem; }
+  .summary { color: #64748b; font-size: 0.85rem; margin-bottom: 1.5rem; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  th, td { border: 1px solid #e2e8f0; padding: 0.6rem 0.8rem; vertical-align: top; font-size: 0.9rem; line-height: 1.5; text-align: start; white-space: pre-wrap; }
+  th { background: #f1f5f9; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; }
+  .meta { color: #6366f1; font-size: 0.7rem; font-weight: 700; margin-bottom: 0.25rem; }
+  tr { break-inside: avoid; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="summary">Languages: ${escapeHtml(languagePair(item))} · ${item.messages.length} turns</div>
+<table>
+<thead><tr><th>Original</th><th>Translation</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+// e.g. conversation-en-ja-2025-03-14-0930.md, shared by transcript and audio exports.
+export function conversationFileName(item: VoiceHistoryItem, extension: string): string {
+  const date = new Date(item.timestamp);
+  const stamp = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}-${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}`;
+  const pair = item.sourceLanguage && item.targetLanguage
+    ? `-${getLanguageInfo(item.sourceLanguage).code}-${getLanguageInfo(item.targetLanguage).code}`
+    : '';
+  return `conversation${pair}-${stamp}.${extension}`;
+}
+
+// With a language, only the turns spoken in or translated into it are exported.
+export function exportTranscript(item: VoiceHistoryItem, format: TranscriptFormat, language?: Language): { blob: Blob; fileName: string } {
+  if (language) item = { ...item, messages: item.messages.filter(turn => turnInvolves(turn, language)) };
+  const content = format === 'markdown' ? toMarkdown(item)
+    : format === 'text' ? toPlainText(item)
+    : format === 'json' ? toJson(item)
+    : toBilingualHtml(item);
+  const { extension, mimeType } = FILE_INFO[format];
+
+  return {
+    blob: new Blob([content], { type: mimeType }),
+    fileName: conversationFileName(item, extension),
+  };
+}
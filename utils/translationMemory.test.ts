@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_SEGMENT_LENGTH, clearTranslationMemory, getTranslationMemorySize, lookupSegments, lookupTranslationMemory,
+  normalizeSegment, rememberTranslation, similarity,
+} from './translationMemory';
+
+beforeEach(() => {
+  clearTranslationMemory();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('normalizeSegment', () => {
+  it('ignores case, surrounding and repeated whitespace and width variants', () => {
+    expect(normalizeSegment('  Hello\n  WORLD ')).toBe('hello world');
+    expect(normalizeSegment('ＡＢＣ')).toBe('abc');
+  });
+});
+
+describe('similarity', () => {
+  it('is one minus the edit distance over the longer length', () => {
+    expect(similarity('kitten', 'kitten')).toBe(1);
+    expect(similarity('kitten', 'sitting')).toBeCloseTo(1 - 3 / 7);
+    expect(similarity('', '')).toBe(1);
+  });
+});
+
+describe('lookupTranslationMemory', () => {
+  it('finds exact matches regardless of case and spacing', () => {
+    rememberTranslation('Good morning.', 'Bonjour.', 'English', 'French');
+    const { exact, fuzzy } = lookupTranslationMemory('  good   MORNING. ', 'English', 'French');
+    expect(exact?.translatedText).toBe('Bonjour.');
+    expect(fuzzy).toEqual([]);
+  });
+
+  it('keeps language pairs apart', () => {
+    rememberTranslation('Good morning.', 'Bonjour.', 'English', 'French');
+    expect(lookupTranslationMemory('Good morning.', 'English', 'German').exact).toBeNull();
+    expect(lookupTranslationMemory('Good morning.', 'French', 'English').exact).toBeNull();
+  });
+
+  it('suggests close matches above the threshold, best first', () => {
+    rememberTranslation('The meeting starts at nine.', 'La réunion commence à neuf heures.', 'English', 'French');
+    rememberTranslation('The meeting starts at ten.', 'La réunion commence à dix heures.', 'English', 'French');
+    rememberTranslation('Where is the station?', 'Où est la gare ?', 'English', 'French');
+
+    const { exact, fuzzy } = lookupTranslationMemory('The meeting starts at nine!', 'English', 'French');
+    expect(exact).toBeNull();
+    expect(fuzzy.map(m => m.entry.sourceText)).toEqual(['The meeting starts at nine.', 'The meeting starts at ten.']);
+    expect(fuzzy[0].similarity).toBeGreaterThan(fuzzy[1].similarity);
+  });
+
+  it('does not look up text longer than a segment', () => {
+    const long = 'a'.repeat(MAX_SEGMENT_LENGTH + 1);
+    expect(lookupTranslationMemory(long, 'English', 'French')).toEqual({ exact: null, fuzzy: [] });
+  });
+});
+
+describe('rememberTranslation', () => {
+  it('updates an existing entry instead of adding another', () => {
+    rememberTranslation('Thank you.', 'Merci.', 'English', 'French');
+    rememberTranslation('thank you.', 'Merci bien.', 'English', 'French');
+    expect(getTranslationMemorySize()).toBe(1);
+    const { exact } = lookupTranslationMemory('Thank you.', 'English', 'French');
+    expect(exact).toMatchObject({ translatedText: 'Merci bien.', useCount: 2 });
+  });
+
+  it('skips empty and oversized segments', () => {
+    rememberTranslation('  ', 'x', 'English', 'French');
+    rememberTranslation('Hi', '  ', 'English', 'French');
+    rememberTranslation('a'.repeat(MAX_SEGMENT_LENGTH + 1), 'b', 'English', 'French');
+    expect(getTranslationMemorySize()).toBe(0);
+  });
+
+  it('drops the oldest entries when storage is full', () => {
+    for (let i = 0; i < 8; i++) rememberTranslation(`Sentence ${i}.`, `Phrase ${i}.`, 'English', 'French');
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (value.length > 1000) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      setItem.call(this, key, value);
+    });
+
+    expect(() => rememberTranslation('Newest.', 'Le plus récent.', 'English', 'French')).not.toThrow();
+    expect(getTranslationMemorySize()).toBeLessThan(9);
+    expect(lookupTranslationMemory('Newest.', 'English', 'French').exact).not.toBeNull();
+    expect(lookupTranslationMemory('Sentence 0.', 'English', 'French').exact).toBeNull();
+  });
+});
+
+describe('lookupSegments', () => {
+  it('returns every hit, or null when any segment is missing', () => {
+    rememberTranslation('Hello.', 'Bonjour.', 'English', 'French');
+    rememberTranslation('Goodbye.', 'Au revoir.', 'English', 'French');
+    expect(lookupSegments(['Hello.', 'Goodbye.'], 'English', 'French')?.map(e => e.translatedText)).toEqual(['Bonjour.', 'Au revoir.']);
+    expect(lookupSegments(['Hello.', 'See you.'], 'English', 'French')).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { Language, TranslationMemoryEntry, TranslationMemoryMatch } from '../types';
+
+const MEMORY_STORAGE_KEY = 'lingua_translation_memory';
+const MAX_MEMORY_ENTRIES = 2000;
+// Memory holds sentence-sized segments. Longer texts are not stored, and are not fuzzy-matched either,
+// since the edit distance grows with the product of both lengths.
+export const MAX_SEGMENT_LENGTH = 500;
+const MAX_FUZZY_SUGGESTIONS = 3;
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+
+let cache: TranslationMemoryEntry[] | null = null;
+
+function getEntries(): TranslationMemoryEntry[] {
+  if (cache) return cache;
+  const saved = localStorage.getItem(MEMORY_STORAGE_KEY);
+  cache = [];
+  if (saved) {
+    try {
+      cache = JSON.parse(saved);
+    } catch (e) {
+      console.error('Failed to parse translation memory', e);
+    }
+  }
+  return cache!;
+}
+
+// Entries are kept newest first, so when storage is full the oldest half is dropped until the write fits.
+function persist(entries: TranslationMemoryEntry[]) {
+  let kept = entries;
+  for (;;) {
+    try {
+      localStorage.setItem(MEMORY_STORAGE_KEY, JSON.stringify(kept));
+      break;
+    } catch (e) {
+      if (kept.length === 0) {
+        console.error('Failed to save translation memory', e);
+        break;
+      }
+      kept = kept.slice(0, Math.floor(kept.length / 2));
+    }
+  }
+  cache = kept;
+}
+
+export function normalizeSegment(text: string): string {
+  return text.normalize('NFKC').trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+}
+
+const memoryKey = (text: string, sourceLanguage: Language, targetLanguage: Language) =>
+  `${sourceLanguage}|${targetLanguage}|${normalizeSegment(text)}`;
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+export function similarity(a: string, b: string): number {
+  const maxLen = Math.max(a.length, b.length);
+  if (maxLen === 0) return 1;
+  return 1 - levenshtein(a, b) / maxLen;
+}
+
+export function lookupTranslationMemory(
+  text: string,
+  sourceLanguage: Language,
+  targetLanguage: Language,
+  threshold = FUZZY_MATCH_THRESHOLD,
+): { exact: TranslationMemoryEntry | null; fuzzy: TranslationMemoryMatch[] } {
+  const normalized = normalizeSegment(text);
+  if (!normalized || normalized.length > MAX_SEGMENT_LENGTH) return { exact: null, fuzzy: [] };
+
+  const key = memoryKey(text, sourceLanguage, targetLanguage);
+  const candidates = getEntries().filter(e => e.sourceLanguage === sourceLanguage && e.targetLanguage === targetLanguage);
+  const exact = candidates.find(e => e.key === key) || null;
+  if (exact) return { exact, fuzzy: [] };
+
+  const prefixLength = key.length - normalized.length;
+  const fuzzy = candidates
+    // Strings whose lengths differ too much can never reach the threshold, so skip the edit distance.
+    .filter(e => {
+      const len = e.key.length - prefixLength;
+      return Math.min(len, normalized.length) / Math.max(len, normalized.length) >= threshold;
+    })
+    .map(entry => ({ entry, similarity: similarity(normalized, normalizeSegment(entry.sourceText)) }))
+    .filter(m => m.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_FUZZY_SUGGESTIONS);
+
+  return { exact: null, fuzzy };
+}
+
+export function rememberTranslation(
+  sourceText: string,
+  translatedText: string,
+  sourceLanguage: Language,
+  targetLanguage: Language,
+) {
+  if (!normalizeSegment(sourceText) || !translatedText.trim()) return;
+  if (sourceText.length > MAX_SEGMENT_LENGTH || translatedText.length > MAX_SEGMENT_LENGTH * 2) return;
+
+  const key = memoryKey(sourceText, sourceLanguage, targetLanguage);
+  const entries = getEntries();
+  const existing = entries.find(e => e.key === key);
+  const entry: TranslationMemoryEntry = {
+    key,
+    sourceText: sourceText.trim(),
+    translatedText: translatedText.trim(),
+    sourceLanguage,
+    targetLanguage,
+    updatedAt: Date.now(),
+    useCount: existing ? existing.useCount + 1 : 1,
+  };
+  persist([entry, ...entries.filter(e => e.key !== key)].slice(0, MAX_MEMORY_ENTRIES));
+}
+
+// Exact translations for every segment, or null if any segment is not in memory.
+export function lookupSegments(segments: string[], sourceLanguage: Language, targetLanguage: Language): TranslationMemoryEntry[] | null {
+  const hits: TranslationMemoryEntry[] = [];
+  for (const segment of segments) {
+    const { exact } = lookupTranslationMemory(segment, sourceLanguage, targetLanguage);
+    if (!exact) return null;
+    hits.push(exact);
+  }
+  return hits;
+}
+
+// Bumps recency and usage of an entry that was reused without calling the model.
+export function touchTranslationMemory(entry: TranslationMemoryEntry) {
+  rememberTranslation(entry.sourceText, entry.translatedText, entry.sourceLanguage, entry.targetLanguage);
+}
+
+export function getTranslationMemorySize(): number {
+  return getEntries().length;
+}
+
+export function clearTranslationMemory() {
+  persist([]);
+}
@@ -0,0 +1,65 @@
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { Language } from '../types';
+
+const DB_NAME = 'lingua_tts_cache';
+const CLIPS = 'clips';
+const ENTRIES = 'entries';
+export const TTS_SAMPLE_RATE = 24000;
+export const TTS_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+export interface SpeechKey {
+  text: string;
+  language: Language;
+  voice: string;
+}
+
+// Audio lives in its own store so eviction only has to read the small bookkeeping records.
+interface CachedClip {
+  id: string;
+  pcm: ArrayBuffer; // 16-bit mono PCM at TTS_SAMPLE_RATE
+}
+
+interface CacheEntry {
+  id: string;
+  size: number;
+  lastUsed: number;
+}
+
+const openStore = () => openDatabase(DB_NAME, 1, [CLIPS, ENTRIES]);
+
+const keyFor = ({ text, language, voice }: SpeechKey) => `${language}\u0000${voice}\u0000${text}`;
+
+export async function getCachedSpeech(key: SpeechKey): Promise<Int16Array | undefined> {
+  const db = await openStore();
+  const id = keyFor(key);
+  const clip = await requestToPromise<CachedClip | undefined>(db.transaction(CLIPS).objectStore(CLIPS).get(id));
+  if (!clip) return undefined;
+
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  tx.objectStore(ENTRIES).put({ id, size: clip.pcm.byteLength, lastUsed: Date.now() } satisfies CacheEntry);
+  await transactionDone(tx);
+  return new Int16Array(clip.pcm);
+}
+
+// Stores a clip, then drops the least recently played clips until the cache fits its size limit.
+export async function cacheSpeech(key: SpeechKey, pcm: Int16Array): Promise<void> {
+  const db = await openStore();
+  const id = keyFor(key);
+  const buffer = pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength) as ArrayBuffer;
+
+  const tx = db.transaction([CLIPS, ENTRIES], 'readwrite');
+  tx.objectStore(CLIPS).put({ id, pcm: buffer } satisfies CachedClip);
+  const entries = tx.objectStore(ENTRIES);
+  entries.put({ id, size: buffer.byteLength, lastUsed: Date.now() } satisfies CacheEntry);
+
+  const all = await requestToPromise<CacheEntry[]>(entries.getAll());
+  let total = all.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of all.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= TTS_CACHE_MAX_BYTES) break;
+    if (entry.id === id) continue;
+    tx.objectStore(CLIPS).delete(entry.id);
+    entries.delete(entry.id);
+    total -= entry.size;
+  }
+  await transactionDone(tx);
+}
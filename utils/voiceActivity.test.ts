@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceGate, describeKey, levelToDb } from './voiceActivity';
+
+const CHUNK_MS = 100; // 600 ms hangover = 6 chunks, 200 ms pre-roll = 2 chunks
+const THRESHOLD_DB = -40;
+const LOUD = 0.1; // -20 dB
+const QUIET = 0.001; // -60 dB
+
+// Feeds one numbered chunk per level and records which chunk numbers each call sent.
+function run(levels: number[], thresholdDb = THRESHOLD_DB) {
+  const gate = createVoiceGate(CHUNK_MS);
+  return levels.map((level, i) => {
+    const { send, speaking, ended } = gate(Int16Array.of(i), level, thresholdDb);
+    return { sent: send.map(pcm => pcm[0]), speaking, ended };
+  });
+}
+
+const sentChunks = (results: ReturnType<typeof run>) => results.flatMap(r => r.sent);
+
+describe('createVoiceGate', () => {
+  it('holds back silence before anyone speaks', () => {
+    const results = run([QUIET, QUIET, QUIET]);
+    expect(sentChunks(results)).toEqual([]);
+    expect(results.some(r => r.speaking || r.ended)).toBe(false);
+  });
+
+  it('sends the pre-roll along with the chunk where speech starts', () => {
+    const results = run([QUIET, QUIET, QUIET, LOUD]);
+    expect(results[3]).toEqual({ sent: [1, 2, 3], speaking: true, ended: false });
+  });
+
+  it('keeps sending through the hangover, then signals the end once', () => {
+    const results = run([LOUD, ...Array(8).fill(QUIET)]);
+    expect(results.slice(0, 7).map(r => r.sent)).toEqual([[0], [1], [2], [3], [4], [5], [6]]);
+    expect(results[7]).toEqual({ sent: [], speaking: false, ended: true });
+    expect(results[8]).toEqual({ sent: [], speaking: false, ended: false });
+  });
+
+  it('treats a pause shorter than the hangover as part of the same speech', () => {
+    const results = run([LOUD, QUIET, QUIET, QUIET, LOUD, QUIET]);
+    expect(sentChunks(results)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(results.some(r => r.ended)).toBe(false);
+  });
+
+  it('starts a fresh pre-roll after speech ends', () => {
+    const results = run([LOUD, ...Array(7).fill(QUIET), QUIET, QUIET, QUIET, LOUD]);
+    expect(results[7].ended).toBe(true);
+    expect(results[11].sent).toEqual([9, 10, 11]);
+  });
+
+  it('applies a threshold changed mid-session to the next chunk', () => {
+    const gate = createVoiceGate(CHUNK_MS);
+    const level = 0.02; // -34 dB
+    expect(gate(Int16Array.of(0), level, -30).speaking).toBe(false);
+    expect(gate(Int16Array.of(1), level, -40)).toEqual({ send: [Int16Array.of(0), Int16Array.of(1)], speaking: true, ended: false });
+  });
+});
+
+describe('levelToDb', () => {
+  it('converts a linear level and floors silence', () => {
+    expect(levelToDb(1)).toBe(0);
+    expect(levelToDb(0.01)).toBeCloseTo(-40);
+    expect(levelToDb(0)).toBe(-100);
+  });
+});
+
+describe('describeKey', () => {
+  it('names keys as people read them', () => {
+    expect(describeKey('KeyT')).toBe('T');
+    expect(describeKey('Digit5')).toBe('5');
+    expect(describeKey('ShiftLeft')).toBe('Shift Left');
+    expect(describeKey('Space')).toBe('Space');
+  });
+});
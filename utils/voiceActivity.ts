@@ -0,0 +1,55 @@
+// How microphone audio is forwarded to a live session.
+export type CaptureMode = 'continuous' | 'vad' | 'push-to-talk';
+
+export const CAPTURE_MODES: Array<{ id: CaptureMode; label: string; desc: string; icon: string }> = [
+  { id: 'continuous', label: 'Continuous', desc: 'Stream everything', icon: 'fa-solid fa-wave-square' },
+  { id: 'vad', label: 'Voice Activated', desc: 'Send only speech', icon: 'fa-solid fa-ear-listen' },
+  { id: 'push-to-talk', label: 'Push to Talk', desc: 'Hold a key or button', icon: 'fa-solid fa-hand-pointer' },
+];
+
+export const VAD_THRESHOLD_RANGE_DB = { min: -60, max: -20 };
+export const DEFAULT_VAD_THRESHOLD_DB = -40;
+export const DEFAULT_PUSH_TO_TALK_KEY = 'Space';
+
+const HANGOVER_MS = 600; // Keep sending through short pauses between words
+const PRE_ROLL_MS = 200; // Audio sent from just before the onset so the first syllable is not clipped
+
+export const levelToDb = (level: number) => 20 * Math.log10(Math.max(level, 1e-5));
+
+export interface VoiceGateResult {
+  send: Int16Array[]; // Chunks to forward, oldest first
+  speaking: boolean;
+  ended: boolean; // True on the chunk where speech fell silent for longer than the hangover
+}
+
+// Energy-based voice activity gate. Feed every captured chunk with its mean absolute level; chunks
+// below the threshold are held back (a short pre-roll is kept) unless speech was heard within the
+// hangover window. The threshold is passed per chunk so it can be tuned while a session runs.
+export function createVoiceGate(chunkMs: number): (pcm: Int16Array, level: number, thresholdDb: number) => VoiceGateResult {
+  const hangoverChunks = Math.ceil(HANGOVER_MS / chunkMs);
+  const preRollChunks = Math.ceil(PRE_ROLL_MS / chunkMs);
+  let preRoll: Int16Array[] = [];
+  let silentChunks = Infinity;
+
+  return (pcm, level, thresholdDb) => {
+    const wasSpeaking = silentChunks <= hangoverChunks;
+    silentChunks = levelToDb(level) >= thresholdDb ? 0 : silentChunks + 1;
+    const speaking = silentChunks <= hangoverChunks;
+
+    if (speaking) {
+      const send = wasSpeaking ? [pcm] : [...preRoll, pcm];
+      preRoll = [];
+      return { send, speaking, ended: false };
+    }
+
+    preRoll = [...preRoll, pcm].slice(-preRollChunks);
+    return { send: [], speaking, ended: wasSpeaking };
+  };
+}
+
+// Human-readable name for a KeyboardEvent.code.
+export function describeKey(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code.replace(/(Left|Right)$/, ' $1').replace(/([a-z])([A-Z])/g, '$1 $2');
+}
@@ -0,0 +1,64 @@
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { decodeAudioData, encodeWav } from './audioUtils';
+
+const DB_NAME = 'lingua_voice_audio';
+const STORE = 'turns';
+const EXPORT_SAMPLE_RATE = 24000;
+const EXPORT_GAP_SECONDS = 0.4;
+
+// Recorded audio for one transcript turn: microphone input for user turns, model speech for model turns.
+export interface TurnAudio {
+  id: string;
+  sampleRate: number;
+  pcm: ArrayBuffer; // 16-bit mono PCM
+}
+
+const openStore = () => openDatabase(DB_NAME, 1, [STORE]);
+
+export async function saveTurnAudio(clip: TurnAudio): Promise<void> {
+  const db = await openStore();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(clip);
+  await transactionDone(tx);
+}
+
+export async function loadTurnAudio(id: string): Promise<TurnAudio | undefined> {
+  const db = await openStore();
+  return requestToPromise<TurnAudio | undefined>(db.transaction(STORE).objectStore(STORE).get(id));
+}
+
+// Deletes every clip not referenced by a history item, so trimming or clearing history frees the audio.
+export async function pruneTurnAudio(keepIds: Set<string>): Promise<void> {
+  const db = await openStore();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const keys = await requestToPromise(store.getAllKeys());
+  keys.filter(key => !keepIds.has(String(key))).forEach(key => store.delete(key));
+  await transactionDone(tx);
+}
+
+export function turnAudioToBuffer(clip: TurnAudio, ctx: BaseAudioContext): Promise<AudioBuffer> {
+  return decodeAudioData(new Uint8Array(clip.pcm), ctx, clip.sampleRate, 1);
+}
+
+// Renders the given turns back to back into one WAV file. Input and output clips have different
+// sample rates, so they are mixed down through an offline context at the model's output rate.
+export async function exportConversationWav(ids: string[]): Promise<Blob> {
+  const clips = (await Promise.all(ids.map(loadTurnAudio))).filter((c): c is TurnAudio => !!c);
+  if (clips.length === 0) throw new Error('No recorded audio for this conversation.');
+
+  const seconds = clips.reduce((total, c) => total + c.pcm.byteLength / 2 / c.sampleRate + EXPORT_GAP_SECONDS, 0);
+  const ctx = new OfflineAudioContext(1, Math.ceil(seconds * EXPORT_SAMPLE_RATE), EXPORT_SAMPLE_RATE);
+
+  let offset = 0;
+  for (const clip of clips) {
+    const source = ctx.createBufferSource();
+    source.buffer = await turnAudioToBuffer(clip, ctx);
+    source.connect(ctx.destination);
+    source.start(offset);
+    offset += source.buffer.duration + EXPORT_GAP_SECONDS;
+  }
+
+  const rendered = await ctx.startRendering();
+  return encodeWav(rendered.getChannelData(0), EXPORT_SAMPLE_RATE);
+}
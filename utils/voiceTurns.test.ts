@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceHistoryItem, VoiceTurn } from '../types';
+import { detectTurnLanguages, turnAudioIds, turnsToContext, upgradeVoiceHistory } from './voiceTurns';
+
+// Items saved by older versions hold one entry per transcript line.
+const legacyItem = (messages: unknown[], pair = true): VoiceHistoryItem => ({
+  id: 'conversation', timestamp: 0, messages: messages as VoiceTurn[],
+  ...(pair ? { sourceLanguage: 'English', targetLanguage: 'French' } : {}),
+});
+
+describe('detectTurnLanguages', () => {
+  const pair = ['English', 'French'] as const;
+
+  it('takes the direction from the original', () => {
+    expect(detectTurnLanguages('Hello, thanks', 'Bonjour, merci', [...pair])).toEqual({ sourceLanguage: 'English', targetLanguage: 'French' });
+    expect(detectTurnLanguages('Bonjour, je vous remercie', 'Hello, thanks', [...pair])).toEqual({ sourceLanguage: 'French', targetLanguage: 'English' });
+  });
+
+  it('works back from the translation when there is no original', () => {
+    expect(detectTurnLanguages('', 'Bonjour, merci', [...pair])).toEqual({ sourceLanguage: 'English', targetLanguage: 'French' });
+  });
+
+  it('tells apart scripts within the pair', () => {
+    expect(detectTurnLanguages('おはようございます', 'Good morning', ['English', 'Japanese'])).toEqual({ sourceLanguage: 'Japanese', targetLanguage: 'English' });
+  });
+});
+
+describe('upgradeVoiceHistory', () => {
+  it('pairs each speaker line with the interpreter line after it', () => {
+    const [item] = upgradeVoiceHistory([legacyItem([
+      { role: 'user', text: 'Hello, thanks', timestamp: 1, audioId: 'a1' },
+      { role: 'model', text: 'Bonjour, merci', timestamp: 2, audioId: 'a2' },
+      { role: 'user', text: 'Bonjour, je vous remercie', timestamp: 3 },
+      { role: 'model', text: 'Hello, thank you', timestamp: 4 },
+    ])]);
+    expect(item.messages).toEqual([
+      { original: 'Hello, thanks', translation: 'Bonjour, merci', sourceLanguage: 'English', targetLanguage: 'French', timestamp: 1, originalAudioId: 'a1', translationAudioId: 'a2' },
+      { original: 'Bonjour, je vous remercie', translation: 'Hello, thank you', sourceLanguage: 'French', targetLanguage: 'English', timestamp: 3, originalAudioId: undefined, translationAudioId: undefined },
+    ]);
+  });
+
+  it('keeps unpaired lines and an odd trailing line as turns of their own', () => {
+    const [item] = upgradeVoiceHistory([legacyItem([
+      { role: 'model', text: 'Bonjour, merci', timestamp: 1 },
+      { role: 'user', text: 'Hello, thanks', timestamp: 2 },
+      { role: 'user', text: 'And you?', timestamp: 3 },
+      { role: 'model', text: 'Et vous ?', timestamp: 4 },
+      { role: 'user', text: 'Goodbye', timestamp: 5 },
+    ])]);
+    expect(item.messages.map(t => [t.original, t.translation, t.timestamp])).toEqual([
+      ['', 'Bonjour, merci', 1],
+      ['Hello, thanks', '', 2],
+      ['And you?', 'Et vous ?', 3],
+      ['Goodbye', '', 5],
+    ]);
+    expect(item.messages[0]).toMatchObject({ sourceLanguage: 'English', targetLanguage: 'French' });
+  });
+
+  it('prefers languages recorded on the legacy lines', () => {
+    const [item] = upgradeVoiceHistory([legacyItem([
+      { role: 'user', text: 'Hello', language: 'French' },
+      { role: 'model', text: 'Bonjour', language: 'English' },
+    ])]);
+    expect(item.messages[0]).toMatchObject({ sourceLanguage: 'French', targetLanguage: 'English' });
+  });
+
+  it('leaves already upgraded turns alongside legacy lines untouched', () => {
+    const turn: VoiceTurn = { original: 'Hello', translation: 'Bonjour', sourceLanguage: 'English', targetLanguage: 'French', timestamp: 1 };
+    const [item] = upgradeVoiceHistory([legacyItem([turn, { role: 'user', text: 'Merci beaucoup', timestamp: 2 }])]);
+    expect(item.messages[0]).toBe(turn);
+    expect(item.messages[1]).toMatchObject({ original: 'Merci beaucoup', sourceLanguage: 'French', targetLanguage: 'English' });
+  });
+
+  it('guesses among all languages when the conversation has no pair', () => {
+    const [item] = upgradeVoiceHistory([legacyItem([{ role: 'user', text: '안녕하세요' }], false)]);
+    expect(item.messages[0].sourceLanguage).toBe('Korean');
+  });
+});
+
+describe('turn helpers', () => {
+  const turns: VoiceTurn[] = [
+    { original: 'Hello', translation: 'Bonjour', sourceLanguage: 'English', targetLanguage: 'French', originalAudioId: 'a1', translationAudioId: 'a2' },
+    { original: '', translation: 'Merci', sourceLanguage: 'English', targetLanguage: 'French', translationAudioId: 'a3' },
+  ];
+
+  it('lists recorded clips in order', () => {
+    expect(turnAudioIds(turns)).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  it('turns the transcript back into alternating lines, skipping empty ones', () => {
+    expect(turnsToContext(turns)).toEqual([
+      { role: 'user', text: 'Hello' },
+      { role: 'model', text: 'Bonjour' },
+      { role: 'model', text: 'Merci' },
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { Language, VoiceHistoryItem, VoiceTurn } from '../types';
+import { ALL_LANGUAGES } from '../languages';
+import { guessLanguage } from './languageDetection';
+
+// Saved before turns were paired: each transcript line was its own entry.
+interface LegacyVoiceTurn {
+  role: 'user' | 'model';
+  text: string;
+  timestamp?: number;
+  language?: Language;
+  audioId?: string;
+}
+
+// Which way a turn was translated. The interpreter works in both directions, so this is decided from the
+// original when there is one, otherwise from the translation.
+export function detectTurnLanguages(original: string, translation: string, pair: Language[]): Pick<VoiceTurn, 'sourceLanguage' | 'targetLanguage'> {
+  const other = (language: Language) => pair.find(l => l !== language) ?? language;
+  const sourceLanguage = original.trim()
+    ? guessLanguage(original, pair)
+    : other(guessLanguage(translation, pair));
+  return { sourceLanguage, targetLanguage: other(sourceLanguage) };
+}
+
+// Pairs each legacy speaker line with the interpreter line that follows it.
+function upgradeTurns(messages: Array<VoiceTurn | LegacyVoiceTurn>, pair: Language[]): VoiceTurn[] {
+  const turns: VoiceTurn[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (!('role' in message)) {
+      turns.push(message);
+      continue;
+    }
+    const next = messages[i + 1];
+    const user = message.role === 'user' ? message : undefined;
+    const model = message.role === 'model' ? message : next && 'role' in next && next.role === 'model' ? next : undefined;
+    if (user && model) i++;
+
+    const original = user?.text ?? '';
+    const translation = model?.text ?? '';
+    const detected = detectTurnLanguages(original, translation, pair);
+    turns.push({
+      original,
+      translation,
+      sourceLanguage: user?.language ?? detected.sourceLanguage,
+      targetLanguage: model?.language ?? detected.targetLanguage,
+      timestamp: user?.timestamp ?? model?.timestamp,
+      originalAudioId: user?.audioId,
+      translationAudioId: model?.audioId,
+    });
+  }
+  return turns;
+}
+
+export function upgradeVoiceHistory(items: VoiceHistoryItem[]): VoiceHistoryItem[] {
+  return items.map(item => {
+    const pair = item.sourceLanguage && item.targetLanguage ? [item.sourceLanguage, item.targetLanguage] : ALL_LANGUAGES;
+    return { ...item, messages: upgradeTurns(item.messages, pair) };
+  });
+}
+
+export const turnAudioIds = (turns: VoiceTurn[]) =>
+  turns.flatMap(t => [t.originalAudioId, t.translationAudioId]).filter((id): id is string => !!id);
+
+export const turnInvolves = (turn: VoiceTurn, language: Language) =>
+  turn.sourceLanguage === language || turn.targetLanguage === language;
+
+// The transcript as alternating speaker and interpreter lines, for handing context to a new live session.
+export const turnsToContext = (turns: VoiceTurn[]) =>
+  turns.flatMap(t => [
+    ...(t.original ? [{ role: 'user' as const, text: t.original }] : []),
+    ...(t.translation ? [{ role: 'model' as const, text: t.translation }] : []),
+  ]);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { readZip, writeZip } from './zipUtils';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe('zipUtils', () => {
+  it('reads back what it writes', async () => {
+    const entries = [
+      { name: '[Content_Types].xml', data: encoder.encode('<Types/>') },
+      { name: 'word/document.xml', data: encoder.encode('<w:document>héllo</w:document>') },
+      { name: 'empty.txt', data: new Uint8Array(0) },
+    ];
+    const blob = writeZip(entries, 'application/test');
+    expect(blob.type).toBe('application/test');
+
+    const read = await readZip(await blob.arrayBuffer());
+    expect(read.map(e => e.name)).toEqual(entries.map(e => e.name));
+    expect(read.map(e => decoder.decode(e.data))).toEqual(entries.map(e => decoder.decode(e.data)));
+  });
+
+  it('inflates deflated entries', async () => {
+    const text = 'deflate me '.repeat(50);
+    const buffer = await writeZip([{ name: 'a.txt', data: deflateRawSync(encoder.encode(text)) }]).arrayBuffer();
+    // Mark the stored entry as deflated in both its local and central headers.
+    const view = new DataView(buffer);
+    const centralOffset = view.getUint32(buffer.byteLength - 22 + 16, true);
+    view.setUint16(8, 8, true);
+    view.setUint16(centralOffset + 10, 8, true);
+
+    const [entry] = await readZip(buffer);
+    expect(decoder.decode(entry.data)).toBe(text);
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZip(encoder.encode('definitely not a zip file at all').buffer as ArrayBuffer)).rejects.toThrow('Not a valid ZIP archive.');
+  });
+});